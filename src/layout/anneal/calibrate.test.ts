@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { calibrateInitialTemperature } from "./calibrate";
+import { builtinMoveKinds, initializeAnneal, runAnneal, type AnnealProblem } from "./engine";
+
+/** Unit nudges flip the parity of a single value, so every uphill move costs exactly 3. */
+const parityProblem: AnnealProblem = {
+  initialLayout: [0],
+  evaluateCost: ([value]) => {
+    const total = 3 * Math.abs(value % 2);
+    return { total, components: { parity: total } };
+  },
+  moveKinds: builtinMoveKinds({}).filter((kind) => kind.name === "nudge"),
+};
+
+test("the calibrated temperature accepts uphill moves at the target rate", () => {
+  for (const targetAcceptance of [0.8, 0.3]) {
+    const temperature = calibrateInitialTemperature(parityProblem, 5, { targetAcceptance });
+    assert.ok(Math.abs(temperature - -3 / Math.log(targetAcceptance)) < 1e-9);
+
+    let uphill = 0;
+    let accepted = 0;
+    const problem: AnnealProblem = {
+      ...parityProblem,
+      initialTemperature: temperature,
+      schedule: { type: "geometric", rate: 1 },
+    };
+    runAnneal(initializeAnneal(problem, 11), 4000, (transition) => {
+      if (transition.deltaCost > 0) {
+        uphill += 1;
+        accepted += transition.accepted ? 1 : 0;
+      }
+    });
+
+    assert.ok(Math.abs(accepted / uphill - targetAcceptance) < 0.05, `${accepted}/${uphill} vs ${targetAcceptance}`);
+  }
+});
+
+test("calibration falls back when the walk sees no uphill move", () => {
+  const flat = { ...parityProblem, evaluateCost: () => ({ total: 0, components: {} }) };
+
+  assert.equal(calibrateInitialTemperature(flat, 5, { fallback: 7 }), 7);
+});
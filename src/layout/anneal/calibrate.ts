@@ -0,0 +1,51 @@
+import { applyMove, initializeAnneal, proposeMove, type AnnealProblem } from "./engine";
+
+export interface TemperatureCalibrationOptions {
+  /** Desired probability of accepting an average uphill move at the start. */
+  targetAcceptance?: number;
+  /** Moves sampled along a random walk from the initial layout. */
+  samples?: number;
+  /** Returned when the walk sees no uphill move. */
+  fallback?: number;
+}
+
+const DEFAULT_TARGET_ACCEPTANCE = 0.8;
+const DEFAULT_SAMPLES = 100;
+const DEFAULT_FALLBACK_TEMPERATURE = 10;
+
+/**
+ * Pick a starting temperature from sampled uphill deltas: `T0 = -mean(Δ+) / ln(χ0)`, so an
+ * average uphill move is accepted with probability `χ0` (`targetAcceptance`).
+ * The walk accepts every proposal and draws from its own `seed`, so it leaves the chain's
+ * RNG untouched; each sample costs one `evaluateCost` (or `evaluateDelta`) call.
+ */
+export function calibrateInitialTemperature(
+  problem: AnnealProblem,
+  seed: number,
+  options: TemperatureCalibrationOptions = {},
+): number {
+  const target = Math.min(0.999, Math.max(0.001, options.targetAcceptance ?? DEFAULT_TARGET_ACCEPTANCE));
+  const samples = Math.max(1, Math.floor(options.samples ?? DEFAULT_SAMPLES));
+  let state = initializeAnneal({ ...problem, captureFullTrace: false, transitionBufferSize: 1 }, seed);
+
+  let uphillSum = 0;
+  let uphillCount = 0;
+  for (let i = 0; i < samples; i += 1) {
+    const candidate = applyMove(state, proposeMove(state));
+    const delta = candidate.costBreakdown.total - state.costBreakdown.total;
+    if (delta > 0) {
+      uphillSum += delta;
+      uphillCount += 1;
+    }
+    state = {
+      ...candidate,
+      costCache: candidate.costCache ?? problem.initCostCache?.(candidate.layout),
+    };
+  }
+
+  if (uphillCount === 0) {
+    return options.fallback ?? DEFAULT_FALLBACK_TEMPERATURE;
+  }
+
+  return -(uphillSum / uphillCount) / Math.log(target);
+}
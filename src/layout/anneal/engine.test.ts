@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  builtinMoveKinds,
+  exportFullTrace,
+  exportTransitionRing,
+  initializeAnneal,
+  runAnneal,
+  type AnnealProblem,
+  type CostBreakdown,
+} from "./engine";
+
+function squaresCost(sum: number): CostBreakdown {
+  return { total: sum, components: { squares: sum } };
+}
+
+const sumOfSquares = (layout: readonly number[]) => layout.reduce((acc, value) => acc + value * value, 0);
+
+/** Sum of squares with an incremental update for nudges; other moves fall back to a full evaluation. */
+function squaresProblem(offset = 0): AnnealProblem {
+  return {
+    initialLayout: [3, -1, 4, 1, -5, 9, -2, 6],
+    evaluateCost: (layout) => squaresCost(sumOfSquares(layout)),
+    initCostCache: sumOfSquares,
+    evaluateDelta: (state, move, nextLayout) => {
+      if (move.type !== "nudge") {
+        return undefined;
+      }
+      const sum = (state.costCache as number) - state.layout[move.index] ** 2 + nextLayout[move.index] ** 2 + offset;
+      return { costBreakdown: squaresCost(sum), costCache: sum };
+    },
+    verifyDelta: true,
+    initialTemperature: 5,
+  };
+}
+
+test("verifyDelta accepts a delta evaluator that agrees with the full cost", () => {
+  const fullOnly = { ...squaresProblem(), evaluateDelta: undefined, initCostCache: undefined };
+  const withDelta = runAnneal(initializeAnneal(squaresProblem(), 7), 300);
+  const withoutDelta = runAnneal(initializeAnneal(fullOnly, 7), 300);
+
+  assert.notDeepEqual(withDelta.layout, squaresProblem().initialLayout);
+  assert.deepEqual(withDelta.layout, withoutDelta.layout);
+  assert.deepEqual(withDelta.costBreakdown, withoutDelta.costBreakdown);
+  assert.equal(withDelta.costCache, sumOfSquares(withDelta.layout));
+});
+
+test("verifyDelta throws when the delta evaluator drifts from the full cost", () => {
+  assert.throws(
+    () => runAnneal(initializeAnneal(squaresProblem(0.5), 7), 300),
+    /evaluateDelta mismatch for nudge move: total delta=.* full=.*, squares delta=/,
+  );
+});
+
+test("verifyDelta honours deltaTolerance", () => {
+  const state = runAnneal(initializeAnneal({ ...squaresProblem(1e-3), deltaTolerance: 1 }, 7), 50);
+
+  assert.equal(state.iteration, 50);
+});
+
+const displacementProblem = (constraints: Partial<AnnealProblem>): AnnealProblem => ({
+  initialLayout: [9, -4, 7, 12, -8, 3],
+  evaluateCost: (layout) => {
+    const total = layout.reduce((acc, value, i) => acc + Math.abs(value - i), 0);
+    return { total, components: { displacement: total } };
+  },
+  maxNudgeStep: 3,
+  ...constraints,
+});
+
+test("pinned indices never move and bounds and groups hold across a run", () => {
+  const problem = displacementProblem({ pinned: [0, 5], bounds: { 1: { min: -5, max: 0 } }, groups: [[2, 3]] });
+  const state = runAnneal(initializeAnneal(problem, 4), 500, (_, current) => {
+    assert.deepEqual([current.layout[0], current.layout[5]], [9, 3]);
+    assert.ok(current.layout[1] >= -5 && current.layout[1] <= 0);
+    assert.equal(current.layout[3] - current.layout[2], 5);
+  });
+
+  assert.notDeepEqual(state.layout.slice(1, 5), problem.initialLayout.slice(1, 5));
+});
+
+test("a step with no admissible proposal is recorded as a skipped no-op", () => {
+  const nudgeOnly = builtinMoveKinds({}).filter((kind) => kind.name === "nudge");
+  const problem = displacementProblem({ pinned: [0, 1, 2, 3, 4, 5], moveKinds: nudgeOnly, maxProposalAttempts: 4 });
+  const state = runAnneal(initializeAnneal(problem, 4), 20, (transition) => {
+    assert.deepEqual(
+      [transition.proposal.type, transition.accepted, transition.reason, transition.deltaCost],
+      ["skip", false, "skipped", 0],
+    );
+  });
+
+  assert.deepEqual(state.layout, problem.initialLayout);
+  assert.equal(state.iteration, 20);
+});
+
+test("exportTransitionRing returns the latest transitions oldest first after wrapping", () => {
+  const state = runAnneal(initializeAnneal({ ...displacementProblem({}), transitionBufferSize: 4 }, 2), 10);
+
+  assert.equal(state.transitionBuffer.head, 2);
+  assert.deepEqual(exportTransitionRing(state).map((transition) => transition.after.iteration), [7, 8, 9, 10]);
+});
+
+test("exportFullTrace keeps every transition in order across chunk boundaries", () => {
+  const problem = { ...displacementProblem({}), captureFullTrace: true, traceChunkSize: 3 };
+  const seen: number[] = [];
+  const state = runAnneal(initializeAnneal(problem, 2), 10, (transition) => seen.push(transition.after.iteration));
+
+  assert.deepEqual(state.fullTrace.chunks.map((chunk) => chunk.length), [3, 3, 3, 1]);
+  assert.deepEqual(exportFullTrace(state).map((transition) => transition.after.iteration), seen);
+  assert.deepEqual(seen, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+});
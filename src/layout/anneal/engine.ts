@@ -1,11 +1,32 @@
-export interface CostBreakdown {
-  total: number;
-  components: Record<string, number>;
-}
-
-export interface AnnealRngState {
-  seed: number;
-}
+import type { CostBreakdown } from "../cost/cost";
+import {
+  initialNormalizationState,
+  normalizeCost,
+  updateNormalization,
+  type CostNormalization,
+  type CostNormalizationState,
+} from "../cost/normalize";
+import {
+  changedIndices,
+  decideAcceptance,
+  DEFAULT_TABU_CANDIDATES,
+  initialOptimizerState,
+  isTabu,
+  type AcceptanceReason,
+  type OptimizerConfig,
+  type OptimizerState,
+} from "./optimizers";
+import { createRng, nextRng, randInt, type AnnealRngState } from "./rng";
+import {
+  advanceCooling,
+  initialCoolingState,
+  type CoolingSchedule,
+  type CoolingState,
+} from "./schedule";
+
+export { createRng, deriveSeed, nextRng, randInt, sanitizeSeed, splitRng } from "./rng";
+export type { AnnealRngState } from "./rng";
+export type { CostBreakdown } from "../cost/cost";
 
 export interface AnnealProblem {
   initialLayout: number[];
@@ -14,10 +35,81 @@ export interface AnnealProblem {
   initialTemperature?: number;
   coolingRate?: number;
   minTemperature?: number;
+  /** Search strategy; simulated annealing when unset. */
+  optimizer?: OptimizerConfig;
+  /** Cooling schedule; geometric cooling by `coolingRate` when unset. */
+  schedule?: CoolingSchedule;
+  /**
+   * Rescale cost components by running estimates of their magnitude. Costs then carry
+   * the normalized objective in `total`, and the current and best totals are rescored
+   * whenever the estimates move.
+   */
+  normalization?: CostNormalization;
   transitionBufferSize?: number;
   captureFullTrace?: boolean;
+  /** Transitions per full-trace chunk. */
+  traceChunkSize?: number;
+  /**
+   * `shared` (default) lets snapshots reference the chain's layout, cost and RNG objects,
+   * which the engine replaces rather than mutates, so treat them as read-only. `copy`
+   * deep-copies every snapshot instead.
+   */
+  snapshotMode?: "shared" | "copy";
+  /**
+   * RNG algorithm (`xorshift32`, `pcg32`, `splitmix64` or a registered one). Unset keeps
+   * the original xorshift32 state format.
+   */
+  rng?: string;
   /** Enable the optional block-shift move in the proposal distribution. */
   enableBlockShift?: boolean;
+  /**
+   * Weighted move registry. When unset, proposals pick uniformly among the built-in
+   * nudge/swap/reinsert (and blockShift) moves. See {@link registerMoveKinds}.
+   */
+  moveKinds?: AnnealMoveKind[];
+  /**
+   * Hard-constraint violation of a layout (0 = feasible). When set, the initial layout must
+   * be feasible (see {@link repairLayout}) and proposals of infeasible layouts are discarded
+   * and redrawn, so the chain never visits one.
+   */
+  hardConstraintViolation?: (layout: readonly number[]) => number;
+  /** Layout indices whose values never change. */
+  pinned?: number[];
+  /** Inclusive value range per layout index; indices without an entry are unbounded. */
+  bounds?: Record<number, IndexBounds>;
+  /**
+   * Index groups that only move together: a nudge of any member shifts every member by
+   * the same delta, and moves that change members unequally are never proposed.
+   */
+  groups?: number[][];
+  /** Redraws allowed per step before giving up with a `skip` move. */
+  maxProposalAttempts?: number;
+  /**
+   * Incremental cost for a move, using the current state's `costCache`. Return `undefined`
+   * to fall back to a full `evaluateCost` (e.g. for move kinds it does not handle).
+   */
+  evaluateDelta?: (
+    state: AnnealState,
+    move: AnnealMove,
+    nextLayout: readonly number[],
+  ) => AnnealDeltaResult | undefined;
+  /** Build the per-term partial state that `evaluateDelta` reads and updates. */
+  initCostCache?: (layout: readonly number[]) => unknown;
+  /** Debug: recompute every delta result with `evaluateCost` and throw on mismatch. */
+  verifyDelta?: boolean;
+  /** Absolute tolerance for `verifyDelta` comparisons. */
+  deltaTolerance?: number;
+}
+
+export interface IndexBounds {
+  min?: number;
+  max?: number;
+}
+
+export interface AnnealDeltaResult {
+  costBreakdown: CostBreakdown;
+  /** Partial state for the candidate layout; kept only if the move is accepted. */
+  costCache?: unknown;
 }
 
 export interface TransitionRingBuffer {
@@ -27,19 +119,36 @@ export interface TransitionRingBuffer {
   entries: AnnealTransition[];
 }
 
+/** Append-only transition log stored in fixed-size chunks. */
+export interface TransitionTrace {
+  chunkSize: number;
+  chunks: AnnealTransition[][];
+  size: number;
+}
+
 export interface AnnealStateSnapshot {
   iteration: number;
   temperature: number;
   layout: number[];
   costBreakdown: CostBreakdown;
   rngState: AnnealRngState;
+  /** Schedule bookkeeping; only present when the problem sets a `schedule`. */
+  cooling?: CoolingState;
+  /** Strategy memory (tabu list, acceptance history, water level) for `optimizer`. */
+  optimizer?: OptimizerState;
+  /** Component scale estimates; only present when the problem sets `normalization`. */
+  normalization?: CostNormalizationState;
 }
 
 export interface AnnealState extends AnnealStateSnapshot {
   problem: AnnealProblem;
+  /** Lowest-cost snapshot the chain has visited. */
+  best: AnnealStateSnapshot;
+  /** Opaque per-term partial state from `initCostCache` / `evaluateDelta`. */
+  costCache?: unknown;
   transitionBuffer: TransitionRingBuffer;
   fullTraceEnabled: boolean;
-  fullTrace: AnnealTransition[];
+  fullTrace: TransitionTrace;
 }
 
 interface AnnealMoveBase {
@@ -67,48 +176,68 @@ export type AnnealMove =
       start: number;
       end: number;
       shift: number;
-    });
+    })
+  /** Stands in when every redraw broke a constraint; the step changes nothing and is not accepted. */
+  | (AnnealMoveBase & { type: "skip" })
+  | CustomAnnealMove;
+
+/** A move proposed by a registered {@link AnnealMoveKind}; `name` is the kind's name. */
+export interface CustomAnnealMove extends AnnealMoveBase {
+  type: "custom";
+  name: string;
+  params: Record<string, number>;
+}
+
+export interface AnnealMoveKind {
+  /** Shown in traces and debug output; must be unique within a registry. */
+  name: string;
+  /** Relative proposal weight (default 1). */
+  weight?: number;
+  propose: (
+    layout: readonly number[],
+    problem: AnnealProblem,
+    rngState: AnnealRngState,
+  ) => AnnealMove;
+  /** Layout transform for the `custom` moves this kind proposes. Built-in kinds omit it. */
+  apply?: (layout: readonly number[], move: CustomAnnealMove) => number[];
+}
 
 export interface AnnealTransition {
   proposal: AnnealMove;
   deltaCost: number;
   accepted: boolean;
-  reason: "improved" | "equal" | "metropolis" | "rejected";
+  reason: AcceptanceReason;
   before: AnnealStateSnapshot;
   after: AnnealStateSnapshot;
 }
 
-const DEFAULT_INITIAL_TEMPERATURE = 10;
+export const DEFAULT_INITIAL_TEMPERATURE = 10;
 const DEFAULT_COOLING_RATE = 0.995;
-const DEFAULT_MIN_TEMPERATURE = 0.0001;
+export const DEFAULT_MIN_TEMPERATURE = 0.0001;
 const DEFAULT_TRANSITION_BUFFER_SIZE = 256;
+const DEFAULT_TRACE_CHUNK_SIZE = 4096;
+const DEFAULT_MAX_PROPOSAL_ATTEMPTS = 32;
+const DEFAULT_DELTA_TOLERANCE = 1e-9;
+const DEFAULT_REPAIR_BUDGET = 10000;
 
-function sanitizeSeed(seed: number): number {
-  const n = seed | 0;
-  return n === 0 ? 0x6d2b79f5 : n;
-}
-
-function nextRng(state: AnnealRngState): [number, AnnealRngState] {
-  let x = state.seed | 0;
-  x ^= x << 13;
-  x ^= x >>> 17;
-  x ^= x << 5;
-
-  const nextState = { seed: sanitizeSeed(x) };
-  const value = (nextState.seed >>> 0) / 4294967296;
-  return [value, nextState];
+function shareSnapshot(state: AnnealStateSnapshot): AnnealStateSnapshot {
+  return {
+    iteration: state.iteration,
+    temperature: state.temperature,
+    layout: state.layout,
+    costBreakdown: state.costBreakdown,
+    rngState: state.rngState,
+    ...(state.cooling ? { cooling: state.cooling } : {}),
+    ...(state.optimizer ? { optimizer: state.optimizer } : {}),
+    ...(state.normalization ? { normalization: state.normalization } : {}),
+  };
 }
 
-function randInt(maxExclusive: number, rngState: AnnealRngState): [number, AnnealRngState] {
-  if (maxExclusive <= 0) {
-    return [0, rngState];
-  }
-
-  const [u, nextState] = nextRng(rngState);
-  return [Math.floor(u * maxExclusive), nextState];
+function snapshotFor(problem: AnnealProblem, state: AnnealStateSnapshot): AnnealStateSnapshot {
+  return problem.snapshotMode === "copy" ? cloneSnapshot(state) : shareSnapshot(state);
 }
 
-function cloneSnapshot(state: AnnealStateSnapshot): AnnealStateSnapshot {
+export function cloneSnapshot(state: AnnealStateSnapshot): AnnealStateSnapshot {
   return {
     iteration: state.iteration,
     temperature: state.temperature,
@@ -118,13 +247,33 @@ function cloneSnapshot(state: AnnealStateSnapshot): AnnealStateSnapshot {
       components: { ...state.costBreakdown.components },
     },
     rngState: { ...state.rngState },
+    ...(state.cooling ? { cooling: { ...state.cooling } } : {}),
+    ...(state.optimizer ? { optimizer: structuredClone(state.optimizer) } : {}),
+    ...(state.normalization
+      ? { normalization: { ...state.normalization, scales: { ...state.normalization.scales } } }
+      : {}),
   };
 }
 
-function cool(problem: AnnealProblem, temperature: number): number {
+function cool(
+  state: AnnealStateSnapshot & { problem: AnnealProblem },
+  accepted: boolean,
+  total: number,
+): [number, CoolingState | undefined] {
+  const { problem, temperature } = state;
   const coolingRate = problem.coolingRate ?? DEFAULT_COOLING_RATE;
   const minTemperature = problem.minTemperature ?? DEFAULT_MIN_TEMPERATURE;
-  return Math.max(minTemperature, temperature * coolingRate);
+
+  if (!problem.schedule || !state.cooling) {
+    return [Math.max(minTemperature, temperature * coolingRate), undefined];
+  }
+
+  return advanceCooling(
+    problem.schedule,
+    state.cooling,
+    { iteration: state.iteration + 1, temperature, accepted, total },
+    { coolingRate, minTemperature },
+  );
 }
 
 function makeRingBuffer(capacity: number): TransitionRingBuffer {
@@ -136,119 +285,332 @@ function makeRingBuffer(capacity: number): TransitionRingBuffer {
   };
 }
 
-function appendTransition(state: AnnealState, transition: AnnealTransition): AnnealState {
+function appendTransition(state: AnnealState, transition: AnnealTransition): void {
   const ring = state.transitionBuffer;
-  const nextEntries = [...ring.entries];
-  nextEntries[ring.head] = transition;
-
-  const nextRing: TransitionRingBuffer = {
-    capacity: ring.capacity,
-    head: (ring.head + 1) % ring.capacity,
-    size: Math.min(ring.size + 1, ring.capacity),
-    entries: nextEntries,
-  };
+  ring.entries[ring.head] = transition;
+  ring.head = (ring.head + 1) % ring.capacity;
+  ring.size = Math.min(ring.size + 1, ring.capacity);
 
-  const nextTrace = state.fullTraceEnabled ? [...state.fullTrace, transition] : state.fullTrace;
+  if (!state.fullTraceEnabled) {
+    return;
+  }
 
-  return {
-    ...state,
-    transitionBuffer: nextRing,
-    fullTrace: nextTrace,
-  };
+  const trace = state.fullTrace;
+  const last = trace.chunks[trace.chunks.length - 1];
+  if (last && last.length < trace.chunkSize) {
+    last.push(transition);
+  } else {
+    trace.chunks.push([transition]);
+  }
+  trace.size += 1;
 }
 
 export function initializeAnneal(problem: AnnealProblem, seed: number): AnnealState {
   const layout = [...problem.initialLayout];
-  const costBreakdown = problem.evaluateCost(layout);
+  const violation = problem.hardConstraintViolation?.(layout) ?? 0;
+  if (violation > 0) {
+    throw new Error(`Initial layout violates hard constraints (violation=${violation}); repair it with repairLayout`);
+  }
+  const scored = problem.evaluateCost(layout);
+  const normalization = problem.normalization && initialNormalizationState(scored);
+  const costBreakdown =
+    problem.normalization && normalization ? normalizeCost(problem.normalization, normalization, scored) : scored;
   const bufferSize = Math.max(1, problem.transitionBufferSize ?? DEFAULT_TRANSITION_BUFFER_SIZE);
+  const temperature = Math.max(problem.initialTemperature ?? DEFAULT_INITIAL_TEMPERATURE, 0);
 
-  return {
+  const snapshot: AnnealStateSnapshot = {
     iteration: 0,
-    temperature: Math.max(problem.initialTemperature ?? DEFAULT_INITIAL_TEMPERATURE, 0),
+    temperature,
     layout,
     costBreakdown,
-    rngState: { seed: sanitizeSeed(seed) },
+    rngState: createRng(seed, problem.rng),
+    ...(problem.schedule
+      ? { cooling: initialCoolingState(problem.schedule, temperature, costBreakdown.total) }
+      : {}),
+  };
+  const optimizer = problem.optimizer && initialOptimizerState(problem.optimizer, costBreakdown.total);
+  if (optimizer) {
+    snapshot.optimizer = optimizer;
+  }
+  if (normalization) {
+    snapshot.normalization = normalization;
+  }
+
+  return {
+    ...snapshot,
+    best: cloneSnapshot(snapshot),
     problem,
     transitionBuffer: makeRingBuffer(bufferSize),
     fullTraceEnabled: Boolean(problem.captureFullTrace),
-    fullTrace: [],
+    fullTrace: {
+      chunkSize: Math.max(1, problem.traceChunkSize ?? DEFAULT_TRACE_CHUNK_SIZE),
+      chunks: [],
+      size: 0,
+    },
+    costCache: problem.initCostCache?.(layout),
   };
 }
 
-export function proposeMove(state: AnnealState): AnnealMove {
-  const { layout, problem } = state;
-  let rng = { ...state.rngState };
+function proposeNudge(
+  layout: readonly number[],
+  problem: AnnealProblem,
+  rngState: AnnealRngState,
+): AnnealMove {
+  let rng = { ...rngState };
+  let index;
+  const free = problem.pinned?.length
+    ? layout.map((_, i) => i).filter((i) => !problem.pinned?.includes(i))
+    : undefined;
+  if (free && free.length > 0) {
+    let pick;
+    [pick, rng] = randInt(free.length, rng);
+    index = free[pick];
+  } else {
+    [index, rng] = randInt(layout.length, rng);
+  }
+  const stepMax = Math.max(1, problem.maxNudgeStep ?? 1);
+  let deltaMagnitude;
+  [deltaMagnitude, rng] = randInt(stepMax, rng);
+  let signRoll;
+  [signRoll, rng] = randInt(2, rng);
 
-  const options: AnnealMove["type"][] = ["nudge", "swap", "reinsert"];
-  if (problem.enableBlockShift) {
-    options.push("blockShift");
+  const delta = (deltaMagnitude + 1) * (signRoll === 0 ? -1 : 1);
+  return { type: "nudge", index, delta, rngStateAfterProposal: rng };
+}
+
+function proposeSwap(
+  layout: readonly number[],
+  _problem: AnnealProblem,
+  rngState: AnnealRngState,
+): AnnealMove {
+  let rng = { ...rngState };
+  let a;
+  [a, rng] = randInt(layout.length, rng);
+  let b;
+  [b, rng] = randInt(layout.length, rng);
+
+  if (layout.length > 1) {
+    while (b === a) {
+      [b, rng] = randInt(layout.length, rng);
+    }
+  }
+
+  return { type: "swap", a, b, rngStateAfterProposal: rng };
+}
+
+function proposeReinsert(
+  layout: readonly number[],
+  _problem: AnnealProblem,
+  rngState: AnnealRngState,
+): AnnealMove {
+  let rng = { ...rngState };
+  let from;
+  [from, rng] = randInt(layout.length, rng);
+  let to;
+  [to, rng] = randInt(layout.length, rng);
+
+  return { type: "reinsert", from, to, rngStateAfterProposal: rng };
+}
+
+function proposeBlockShift(
+  layout: readonly number[],
+  _problem: AnnealProblem,
+  rngState: AnnealRngState,
+): AnnealMove {
+  let rng = { ...rngState };
+  let start;
+  [start, rng] = randInt(layout.length, rng);
+  let end;
+  [end, rng] = randInt(layout.length, rng);
+  if (start > end) {
+    [start, end] = [end, start];
   }
 
-  let moveIndex;
-  [moveIndex, rng] = randInt(options.length, rng);
-  const moveType = options[moveIndex];
+  let shift;
+  [shift, rng] = randInt(3, rng);
+  return {
+    type: "blockShift",
+    start,
+    end,
+    shift: shift - 1,
+    rngStateAfterProposal: rng,
+  };
+}
+
+/**
+ * Built-in move kinds with weight 1, matching the default proposal distribution.
+ */
+export function builtinMoveKinds(problem: Pick<AnnealProblem, "enableBlockShift">): AnnealMoveKind[] {
+  const kinds: AnnealMoveKind[] = [
+    { name: "nudge", propose: proposeNudge },
+    { name: "swap", propose: proposeSwap },
+    { name: "reinsert", propose: proposeReinsert },
+  ];
+  if (problem.enableBlockShift) {
+    kinds.push({ name: "blockShift", propose: proposeBlockShift });
+  }
 
-  if (moveType === "swap") {
-    let a;
-    [a, rng] = randInt(layout.length, rng);
-    let b;
-    [b, rng] = randInt(layout.length, rng);
+  return kinds;
+}
 
-    if (layout.length > 1) {
-      while (b === a) {
-        [b, rng] = randInt(layout.length, rng);
-      }
+/**
+ * Add move kinds to a problem's registry, starting from the built-ins when it has none.
+ */
+export function registerMoveKinds(
+  problem: AnnealProblem,
+  kinds: readonly AnnealMoveKind[],
+): AnnealProblem {
+  const moveKinds = [...(problem.moveKinds ?? builtinMoveKinds(problem))];
+
+  for (const kind of kinds) {
+    if (moveKinds.some((existing) => existing.name === kind.name)) {
+      throw new Error(`Move kind "${kind.name}" is already registered`);
     }
+    moveKinds.push(kind);
+  }
+
+  return { ...problem, moveKinds };
+}
 
-    return { type: "swap", a, b, rngStateAfterProposal: rng };
+/**
+ * Display name of a move: the built-in type, or the registered kind name for custom moves.
+ */
+export function moveName(move: AnnealMove): string {
+  return move.type === "custom" ? move.name : move.type;
+}
+
+function pickMoveKind(
+  kinds: readonly AnnealMoveKind[],
+  rngState: AnnealRngState,
+): [AnnealMoveKind, AnnealRngState] {
+  const weights = kinds.map((kind) => Math.max(0, kind.weight ?? 1));
+  const total = weights.reduce((acc, weight) => acc + weight, 0);
+  if (total <= 0) {
+    throw new Error("Move registry has no kind with a positive weight");
+  }
+
+  const [u, rng] = nextRng(rngState);
+  let threshold = u * total;
+  let picked = 0;
+  for (let i = 0; i < kinds.length; i += 1) {
+    if (weights[i] <= 0) {
+      continue;
+    }
+    picked = i;
+    threshold -= weights[i];
+    if (threshold < 0) {
+      break;
+    }
   }
 
-  if (moveType === "reinsert") {
-    let from;
-    [from, rng] = randInt(layout.length, rng);
-    let to;
-    [to, rng] = randInt(layout.length, rng);
+  return [kinds[picked], rng];
+}
 
-    return { type: "reinsert", from, to, rngStateAfterProposal: rng };
+function proposeCandidate(
+  layout: readonly number[],
+  problem: AnnealProblem,
+  rngState: AnnealRngState,
+): AnnealMove {
+  if (problem.moveKinds) {
+    const [kind, rng] = pickMoveKind(problem.moveKinds, rngState);
+    return kind.propose(layout, problem, rng);
   }
 
-  if (moveType === "blockShift") {
-    let start;
-    [start, rng] = randInt(layout.length, rng);
-    let end;
-    [end, rng] = randInt(layout.length, rng);
-    if (start > end) {
-      [start, end] = [end, start];
+  const options = builtinMoveKinds(problem);
+  const [moveIndex, rng] = randInt(options.length, rngState);
+  return options[moveIndex].propose(layout, problem, rng);
+}
+
+function hasLayoutConstraints(problem: AnnealProblem): boolean {
+  return Boolean(
+    problem.pinned?.length || problem.groups?.length || Object.keys(problem.bounds ?? {}).length,
+  );
+}
+
+/**
+ * Whether going from `layout` to `nextLayout` keeps pinned indices fixed, changed values
+ * inside their bounds and every group shifted by one common delta.
+ */
+export function respectsLayoutConstraints(
+  problem: Pick<AnnealProblem, "pinned" | "bounds" | "groups">,
+  layout: readonly number[],
+  nextLayout: readonly number[],
+): boolean {
+  for (let i = 0; i < nextLayout.length; i += 1) {
+    if (nextLayout[i] === layout[i]) {
+      continue;
+    }
+    if (problem.pinned?.includes(i)) {
+      return false;
     }
 
-    let shift;
-    [shift, rng] = randInt(3, rng);
-    return {
-      type: "blockShift",
-      start,
-      end,
-      shift: shift - 1,
-      rngStateAfterProposal: rng,
-    };
+    const bounds = problem.bounds?.[i];
+    if (bounds && (nextLayout[i] < (bounds.min ?? -Infinity) || nextLayout[i] > (bounds.max ?? Infinity))) {
+      return false;
+    }
   }
 
-  let index;
-  [index, rng] = randInt(layout.length, rng);
-  const stepMax = Math.max(1, problem.maxNudgeStep ?? 1);
-  let deltaMagnitude;
-  [deltaMagnitude, rng] = randInt(stepMax, rng);
-  let signRoll;
-  [signRoll, rng] = randInt(2, rng);
+  return (problem.groups ?? []).every((group) => {
+    const delta = nextLayout[group[0]] - layout[group[0]];
+    return group.every((index) => nextLayout[index] - layout[index] === delta);
+  });
+}
 
-  const delta = (deltaMagnitude + 1) * (signRoll === 0 ? -1 : 1);
-  return { type: "nudge", index, delta, rngStateAfterProposal: rng };
+/**
+ * Draw a move, redrawing proposals that would break pinned, bounded or grouped indices
+ * or violate a hard constraint.
+ */
+export function proposeMove(state: AnnealState): AnnealMove {
+  const { layout, problem } = state;
+  const violation = problem.hardConstraintViolation;
+  const constrained = hasLayoutConstraints(problem);
+  if (!violation && !constrained) {
+    return proposeCandidate(layout, problem, state.rngState);
+  }
+
+  const attempts = Math.max(1, problem.maxProposalAttempts ?? DEFAULT_MAX_PROPOSAL_ATTEMPTS);
+  let rng = { ...state.rngState };
+
+  for (let attempt = 0; attempt < attempts; attempt += 1) {
+    const move = proposeCandidate(layout, problem, rng);
+    const nextLayout = applyMoveToLayout(layout, move, problem);
+    if (
+      (!constrained || respectsLayoutConstraints(problem, layout, nextLayout)) &&
+      (!violation || violation(nextLayout) <= 0)
+    ) {
+      return move;
+    }
+    rng = move.rngStateAfterProposal;
+  }
+
+  return { type: "skip", rngStateAfterProposal: rng };
 }
 
-export function applyMove(state: AnnealState, move: AnnealMove): AnnealState {
-  const nextLayout = [...state.layout];
+/**
+ * Pure layout transform for a move; does not evaluate cost or touch RNG state.
+ * `custom` moves are applied by the registered kind of the same name, and a nudge of a
+ * grouped index shifts its whole group.
+ */
+export function applyMoveToLayout(
+  layout: readonly number[],
+  move: AnnealMove,
+  problem: Pick<AnnealProblem, "moveKinds" | "groups"> = {},
+): number[] {
+  if (move.type === "custom") {
+    const kind = problem.moveKinds?.find((candidate) => candidate.name === move.name);
+    if (!kind?.apply) {
+      throw new Error(`No apply function registered for move kind "${move.name}"`);
+    }
+    return kind.apply(layout, move);
+  }
+
+  const nextLayout = [...layout];
 
   if (move.type === "nudge" && nextLayout.length > 0) {
-    nextLayout[move.index] = nextLayout[move.index] + move.delta;
+    const group = problem.groups?.find((members) => members.includes(move.index)) ?? [move.index];
+    for (const index of group) {
+      nextLayout[index] = nextLayout[index] + move.delta;
+    }
   } else if (move.type === "swap" && nextLayout.length > 1) {
     [nextLayout[move.a], nextLayout[move.b]] = [nextLayout[move.b], nextLayout[move.a]];
   } else if (move.type === "reinsert" && nextLayout.length > 1) {
@@ -262,23 +624,90 @@ export function applyMove(state: AnnealState, move: AnnealMove): AnnealState {
     nextLayout.splice(insertion, 0, ...block);
   }
 
+  return nextLayout;
+}
+
+function assertDeltaMatches(
+  problem: AnnealProblem,
+  move: AnnealMove,
+  delta: CostBreakdown,
+  full: CostBreakdown,
+): void {
+  const tolerance = problem.deltaTolerance ?? DEFAULT_DELTA_TOLERANCE;
+  const keys = new Set([...Object.keys(delta.components), ...Object.keys(full.components)]);
+  const mismatches: string[] = [];
+
+  if (Math.abs(delta.total - full.total) > tolerance) {
+    mismatches.push(`total delta=${delta.total} full=${full.total}`);
+  }
+
+  for (const key of keys) {
+    const a = delta.components[key] ?? 0;
+    const b = full.components[key] ?? 0;
+    if (Math.abs(a - b) > tolerance) {
+      mismatches.push(`${key} delta=${a} full=${b}`);
+    }
+  }
+
+  if (mismatches.length > 0) {
+    throw new Error(`evaluateDelta mismatch for ${moveName(move)} move: ${mismatches.join(", ")}`);
+  }
+}
+
+export function applyMove(state: AnnealState, move: AnnealMove): AnnealState {
+  const { problem } = state;
+  if (move.type === "skip") {
+    return { ...state, rngState: { ...move.rngStateAfterProposal } };
+  }
+  const nextLayout = applyMoveToLayout(state.layout, move, problem);
+  if (hasLayoutConstraints(problem) && !respectsLayoutConstraints(problem, state.layout, nextLayout)) {
+    throw new Error(`${moveName(move)} move breaks pinned, bounded or grouped indices`);
+  }
+  const delta = problem.evaluateDelta?.(state, move, nextLayout);
+
+  if (delta && problem.verifyDelta) {
+    assertDeltaMatches(problem, move, delta.costBreakdown, problem.evaluateCost(nextLayout));
+  }
+
+  const scored = delta ? delta.costBreakdown : problem.evaluateCost(nextLayout);
+  const normalization =
+    problem.normalization && state.normalization
+      ? updateNormalization(problem.normalization, state.normalization, scored)
+      : undefined;
+
   return {
     ...state,
     layout: nextLayout,
-    costBreakdown: state.problem.evaluateCost(nextLayout),
+    costBreakdown:
+      problem.normalization && normalization ? normalizeCost(problem.normalization, normalization, scored) : scored,
+    costCache: delta?.costCache,
     rngState: { ...move.rngStateAfterProposal },
+    ...(normalization ? { normalization } : {}),
   };
 }
 
-export function acceptMove(state: AnnealState, candidate: AnnealState): AnnealTransition {
+export function acceptMove(state: AnnealState, candidate: AnnealState, proposal: AnnealMove): AnnealTransition {
   const deltaCost = candidate.costBreakdown.total - state.costBreakdown.total;
-  const before = cloneSnapshot(state);
+  const before = snapshotFor(state.problem, state);
 
   let accepted = false;
   let reason: AnnealTransition["reason"] = "rejected";
   let rngAfterAccept = { ...candidate.rngState };
-
-  if (deltaCost < 0) {
+  let optimizer = state.optimizer;
+  const strategy = state.problem.optimizer;
+
+  if (proposal.type === "skip") {
+    reason = "skipped";
+  } else if (strategy && strategy.type !== "annealing") {
+    const decision = decideAcceptance(strategy, state.optimizer, {
+      iteration: state.iteration,
+      currentTotal: state.costBreakdown.total,
+      candidateTotal: candidate.costBreakdown.total,
+      changed: changedIndices(state.layout, candidate.layout),
+    });
+    ({ accepted, reason } = decision);
+    optimizer = decision.state;
+  } else if (deltaCost < 0) {
     accepted = true;
     reason = "improved";
   } else if (deltaCost === 0) {
@@ -294,29 +723,25 @@ export function acceptMove(state: AnnealState, candidate: AnnealState): AnnealTr
     }
   }
 
-  const baseNext: AnnealStateSnapshot = {
+  const [temperature, cooling] = cool(
+    state,
+    accepted,
+    accepted ? candidate.costBreakdown.total : state.costBreakdown.total,
+  );
+
+  const baseNext = snapshotFor(state.problem, {
     iteration: state.iteration + 1,
-    temperature: cool(state.problem, state.temperature),
-    layout: accepted ? [...candidate.layout] : [...state.layout],
-    costBreakdown: accepted
-      ? {
-          total: candidate.costBreakdown.total,
-          components: { ...candidate.costBreakdown.components },
-        }
-      : {
-          total: state.costBreakdown.total,
-          components: { ...state.costBreakdown.components },
-        },
+    temperature,
+    layout: accepted ? candidate.layout : state.layout,
+    costBreakdown: accepted ? candidate.costBreakdown : state.costBreakdown,
     rngState: rngAfterAccept,
-  };
+    ...(cooling ? { cooling } : {}),
+    ...(optimizer ? { optimizer } : {}),
+    ...(state.normalization ? { normalization: state.normalization } : {}),
+  });
 
   return {
-    proposal: {
-      type: "nudge",
-      index: 0,
-      delta: 0,
-      rngStateAfterProposal: { ...candidate.rngState },
-    },
+    proposal,
     deltaCost,
     accepted,
     reason,
@@ -325,42 +750,125 @@ export function acceptMove(state: AnnealState, candidate: AnnealState): AnnealTr
   };
 }
 
-function buildNextStateFromTransition(state: AnnealState, transition: AnnealTransition): AnnealState {
-  return {
-    ...state,
-    iteration: transition.after.iteration,
-    temperature: transition.after.temperature,
-    layout: [...transition.after.layout],
-    costBreakdown: {
-      total: transition.after.costBreakdown.total,
-      components: { ...transition.after.costBreakdown.components },
-    },
-    rngState: { ...transition.after.rngState },
+/**
+ * Tabu step: draw several proposals and keep the cheapest admissible one. A proposal is
+ * admissible when it changes no tabu index or beats the best cost so far; if none is,
+ * the cheapest proposal is used.
+ */
+function proposeTabuCandidate(state: AnnealState, candidates: number): [AnnealMove, AnnealState] {
+  let rngState = state.rngState;
+  const draws: [AnnealMove, AnnealState][] = [];
+  for (let i = 0; i < Math.max(1, candidates); i += 1) {
+    const move = proposeMove({ ...state, rngState });
+    draws.push([move, applyMove(state, move)]);
+    rngState = move.rngStateAfterProposal;
+  }
+
+  const admissible = draws.filter(
+    ([, candidate]) =>
+      !isTabu(state.optimizer, changedIndices(state.layout, candidate.layout)) ||
+      candidate.costBreakdown.total < state.best.costBreakdown.total,
+  );
+  const [move, candidate] = (admissible.length > 0 ? admissible : draws).reduce((cheapest, draw) =>
+    draw[1].costBreakdown.total < cheapest[1].costBreakdown.total ? draw : cheapest,
+  );
+  const rngStateAfterProposal = { ...rngState };
+  return [{ ...move, rngStateAfterProposal }, { ...candidate, rngState: rngStateAfterProposal }];
+}
+
+function proposeStepCandidate(state: AnnealState): [AnnealMove, AnnealState] {
+  const strategy = state.problem.optimizer;
+  if (strategy?.type === "tabu") {
+    return proposeTabuCandidate(state, strategy.candidates ?? DEFAULT_TABU_CANDIDATES);
+  }
+
+  const move = proposeMove(state);
+  return [move, applyMove(state, move)];
+}
+
+/**
+ * Adopts the candidate's scale estimates and rescores the current and best costs with
+ * them, so acceptance and best tracking compare totals on the same scale.
+ */
+function rescaleCosts(state: AnnealState, normalization: CostNormalizationState): void {
+  const config = state.problem.normalization;
+  if (!config) {
+    return;
+  }
+
+  state.normalization = normalization;
+  state.costBreakdown = normalizeCost(config, normalization, state.costBreakdown);
+  state.best = {
+    ...state.best,
+    costBreakdown: normalizeCost(config, normalization, state.best.costBreakdown),
+    normalization,
   };
 }
 
 export function stepAnneal(state: AnnealState): AnnealTransition {
-  const proposal = proposeMove(state);
-  const candidate = applyMove(state, proposal);
-  const acceptedTransition = acceptMove(state, candidate);
+  const [proposal, candidate] = proposeStepCandidate(state);
+  if (candidate.normalization) {
+    rescaleCosts(state, candidate.normalization);
+  }
+  const transition = acceptMove(state, candidate, proposal);
+
+  const next = snapshotFor(state.problem, transition.after);
+  state.iteration = next.iteration;
+  state.temperature = next.temperature;
+  state.layout = next.layout;
+  state.costBreakdown = next.costBreakdown;
+  state.rngState = next.rngState;
+  state.cooling = next.cooling;
+  state.optimizer = next.optimizer;
+  state.normalization = next.normalization;
+  appendTransition(state, transition);
+
+  if (transition.accepted && state.problem.initCostCache) {
+    state.costCache = candidate.costCache ?? state.problem.initCostCache(state.layout);
+  }
+  if (state.costBreakdown.total < state.best.costBreakdown.total) {
+    state.best = cloneSnapshot(state);
+  }
 
-  const transition: AnnealTransition = {
-    ...acceptedTransition,
-    proposal,
-  };
+  return transition;
+}
 
-  const postStep = buildNextStateFromTransition(state, transition);
-  const persisted = appendTransition(postStep, transition);
+/**
+ * A feasible version of the problem's initial layout: hill-climbs the hard-constraint
+ * violation with the problem's moves (keeping pinned, bounded and grouped indices) until
+ * it reaches 0. Throws when `budget` steps are not enough.
+ */
+export function repairLayout(problem: AnnealProblem, seed: number, budget = DEFAULT_REPAIR_BUDGET): number[] {
+  const violation = problem.hardConstraintViolation;
+  if (!violation || violation(problem.initialLayout) <= 0) {
+    return [...problem.initialLayout];
+  }
 
-  state.iteration = persisted.iteration;
-  state.temperature = persisted.temperature;
-  state.layout = persisted.layout;
-  state.costBreakdown = persisted.costBreakdown;
-  state.rngState = persisted.rngState;
-  state.transitionBuffer = persisted.transitionBuffer;
-  state.fullTrace = persisted.fullTrace;
+  const state = initializeAnneal(
+    {
+      ...problem,
+      evaluateCost: (layout) => {
+        const total = violation(layout);
+        return { total, components: { violation: total } };
+      },
+      hardConstraintViolation: undefined,
+      evaluateDelta: undefined,
+      initCostCache: undefined,
+      normalization: undefined,
+      schedule: undefined,
+      optimizer: { type: "hillClimbing" },
+      captureFullTrace: false,
+    },
+    seed,
+  );
+  for (let i = 0; i < budget && state.costBreakdown.total > 0; i += 1) {
+    stepAnneal(state);
+  }
 
-  return transition;
+  if (state.costBreakdown.total > 0) {
+    throw new Error(`No feasible layout within ${budget} repair steps (violation=${state.costBreakdown.total})`);
+  }
+  return state.layout;
 }
 
 export function runAnneal(
@@ -396,5 +904,5 @@ export function exportTransitionRing(state: AnnealState): AnnealTransition[] {
 }
 
 export function exportFullTrace(state: AnnealState): AnnealTransition[] {
-  return [...state.fullTrace];
+  return state.fullTrace.chunks.flat();
 }
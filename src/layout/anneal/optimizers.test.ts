@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { initializeAnneal, runAnneal, type AnnealProblem } from "./engine";
+import { changedIndices, decideAcceptance, initialOptimizerState, isTabu, type OptimizerConfig } from "./optimizers";
+
+const input = (currentTotal: number, candidateTotal: number, iteration = 0, changed = [0]) => ({
+  iteration,
+  currentTotal,
+  candidateTotal,
+  changed,
+});
+
+test("hillClimbing accepts improvements and, unless disabled, equal moves", () => {
+  assert.equal(decideAcceptance({ type: "hillClimbing" }, undefined, input(5, 4)).reason, "improved");
+  assert.equal(decideAcceptance({ type: "hillClimbing" }, undefined, input(5, 5)).accepted, true);
+  assert.equal(decideAcceptance({ type: "hillClimbing", acceptEqual: false }, undefined, input(5, 5)).accepted, false);
+  assert.equal(decideAcceptance({ type: "hillClimbing" }, undefined, input(5, 6)).reason, "rejected");
+});
+
+test("tabu always moves and remembers changed indices for `tenure` steps", () => {
+  const config: OptimizerConfig = { type: "tabu", tenure: 2 };
+  let state = initialOptimizerState(config, 10);
+  const uphill = decideAcceptance(config, state, input(10, 12, 0, [1]));
+  assert.deepEqual([uphill.accepted, uphill.reason], [true, "tabu"]);
+
+  state = uphill.state;
+  state = decideAcceptance(config, state, input(12, 11, 1, [2])).state;
+  assert.equal(isTabu(state, [1]), true);
+  state = decideAcceptance(config, state, input(11, 11, 2, [3])).state;
+  assert.equal(isTabu(state, [1]), false);
+  assert.equal(isTabu(state, [2, 5]), true);
+});
+
+test("lateAcceptance compares against the cost `historyLength` steps ago", () => {
+  const config: OptimizerConfig = { type: "lateAcceptance", historyLength: 2 };
+  const state = initialOptimizerState(config, 10);
+
+  const worseButLate = decideAcceptance(config, state, input(8, 9, 0));
+  assert.deepEqual([worseButLate.accepted, worseButLate.reason], [true, "lateAcceptance"]);
+  assert.deepEqual(worseButLate.state?.history, [9, 10]);
+
+  const tooLate = decideAcceptance(config, { history: [7, 10] }, input(8, 9, 0));
+  assert.deepEqual([tooLate.accepted, tooLate.state?.history], [false, [8, 10]]);
+});
+
+test("greatDeluge accepts under a falling water level", () => {
+  const config: OptimizerConfig = { type: "greatDeluge", rainSpeed: 1 };
+  let state = initialOptimizerState(config, 10);
+  assert.deepEqual(state, { level: 10, rainSpeed: 1 });
+
+  const under = decideAcceptance(config, state, input(8, 10));
+  assert.deepEqual([under.accepted, under.reason], [true, "deluge"]);
+  state = under.state;
+  assert.equal(decideAcceptance(config, state, input(8, 10)).accepted, false);
+});
+
+test("changedIndices lists positions that differ", () => {
+  assert.deepEqual(changedIndices([1, 2, 3], [1, 5, 3, 4]), [1, 3]);
+});
+
+const displacementProblem = (optimizer: OptimizerConfig): AnnealProblem => ({
+  initialLayout: [9, -4, 7, 12, -8, 3],
+  evaluateCost: (layout) => {
+    const total = layout.reduce((acc, value, i) => acc + Math.abs(value - i), 0);
+    return { total, components: { displacement: total } };
+  },
+  optimizer,
+});
+
+test("every optimizer lowers the cost of a simple problem", () => {
+  const configs: OptimizerConfig[] = [
+    { type: "hillClimbing" },
+    { type: "tabu" },
+    { type: "lateAcceptance" },
+    { type: "greatDeluge" },
+  ];
+
+  for (const optimizer of configs) {
+    const problem = displacementProblem(optimizer);
+    const initial = problem.evaluateCost(problem.initialLayout).total;
+    const state = runAnneal(initializeAnneal(problem, 3), 400);
+    assert.ok(state.best.costBreakdown.total < initial / 2, `${optimizer.type} best=${state.best.costBreakdown.total}`);
+  }
+});
+
+test("hillClimbing never accepts a worse layout", () => {
+  let previous = Number.POSITIVE_INFINITY;
+  runAnneal(initializeAnneal(displacementProblem({ type: "hillClimbing" }), 5), 300, (_, state) => {
+    assert.ok(state.costBreakdown.total <= previous);
+    previous = state.costBreakdown.total;
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Local-search strategies that can replace Metropolis acceptance on the same problem:
+ * - `annealing`: simulated annealing (the default).
+ * - `hillClimbing`: accept improvements, and equal moves unless `acceptEqual` is false.
+ * - `tabu`: draw `candidates` proposals per step and take the cheapest one that does not
+ *   change an index changed within the last `tenure` steps, unless it beats the best cost.
+ * - `lateAcceptance`: accept when no worse than the current cost or the cost
+ *   `historyLength` steps ago.
+ * - `greatDeluge`: accept while the candidate stays under a water level that falls by
+ *   `rainSpeed` per step (default: 0.01% of the initial cost).
+ */
+export type OptimizerConfig =
+  | { type: "annealing" }
+  | { type: "hillClimbing"; acceptEqual?: boolean }
+  | { type: "tabu"; tenure?: number; candidates?: number }
+  | { type: "lateAcceptance"; historyLength?: number }
+  | { type: "greatDeluge"; rainSpeed?: number; initialLevel?: number };
+
+/** Per-strategy memory, kept on each snapshot like the cooling state. */
+export interface OptimizerState {
+  /** `lateAcceptance`: costs of the last `historyLength` steps, indexed by iteration. */
+  history?: number[];
+  /** `greatDeluge`: current water level. */
+  level?: number;
+  rainSpeed?: number;
+  /** `tabu`: indices changed by each of the most recent moves, oldest first. */
+  tabu?: number[][];
+}
+
+export type AcceptanceReason =
+  | "improved"
+  | "equal"
+  | "metropolis"
+  | "lateAcceptance"
+  | "deluge"
+  | "tabu"
+  | "rejected"
+  /** No proposal satisfied the layout or hard constraints (see `proposeMove`). */
+  | "skipped";
+
+export interface AcceptanceInput {
+  iteration: number;
+  currentTotal: number;
+  candidateTotal: number;
+  /** Indices whose value the candidate changes. */
+  changed: number[];
+}
+
+const DEFAULT_TABU_TENURE = 7;
+export const DEFAULT_TABU_CANDIDATES = 8;
+const DEFAULT_HISTORY_LENGTH = 50;
+const DEFAULT_RAIN_FRACTION = 0.0001;
+
+export function initialOptimizerState(config: OptimizerConfig, total: number): OptimizerState | undefined {
+  switch (config.type) {
+    case "lateAcceptance":
+      return { history: new Array(Math.max(1, config.historyLength ?? DEFAULT_HISTORY_LENGTH)).fill(total) };
+    case "greatDeluge":
+      return {
+        level: config.initialLevel ?? total,
+        rainSpeed: config.rainSpeed ?? Math.abs(total) * DEFAULT_RAIN_FRACTION,
+      };
+    case "tabu":
+      return { tabu: [] };
+    default:
+      return undefined;
+  }
+}
+
+export function changedIndices(layout: readonly number[], nextLayout: readonly number[]): number[] {
+  const changed: number[] = [];
+  for (let i = 0; i < Math.max(layout.length, nextLayout.length); i += 1) {
+    if (layout[i] !== nextLayout[i]) {
+      changed.push(i);
+    }
+  }
+  return changed;
+}
+
+export function isTabu(state: OptimizerState | undefined, changed: readonly number[]): boolean {
+  return (state?.tabu ?? []).some((entry) => entry.some((index) => changed.includes(index)));
+}
+
+/**
+ * Accept/reject decision for the non-annealing strategies, plus their updated memory.
+ * `annealing` is handled by the engine's Metropolis step.
+ */
+export function decideAcceptance(
+  config: Exclude<OptimizerConfig, { type: "annealing" }>,
+  state: OptimizerState | undefined,
+  input: AcceptanceInput,
+): { accepted: boolean; reason: AcceptanceReason; state: OptimizerState | undefined } {
+  const delta = input.candidateTotal - input.currentTotal;
+  const base: AcceptanceReason = delta < 0 ? "improved" : "equal";
+
+  switch (config.type) {
+    case "hillClimbing": {
+      const accepted = delta < 0 || (delta === 0 && config.acceptEqual !== false);
+      return { accepted, reason: accepted ? base : "rejected", state };
+    }
+    case "tabu": {
+      const tenure = Math.max(0, config.tenure ?? DEFAULT_TABU_TENURE);
+      const tabu = tenure === 0 ? [] : [...(state?.tabu ?? []), input.changed].slice(-tenure);
+      return { accepted: true, reason: delta <= 0 ? base : "tabu", state: { ...state, tabu } };
+    }
+    case "lateAcceptance": {
+      const history = [...(state?.history ?? [input.currentTotal])];
+      const slot = input.iteration % history.length;
+      const accepted = delta <= 0 || input.candidateTotal <= history[slot];
+      history[slot] = accepted ? input.candidateTotal : input.currentTotal;
+      return { accepted, reason: delta <= 0 ? base : accepted ? "lateAcceptance" : "rejected", state: { history } };
+    }
+    case "greatDeluge": {
+      const level = state?.level ?? input.currentTotal;
+      const accepted = delta <= 0 || input.candidateTotal <= level;
+      return {
+        accepted,
+        reason: delta <= 0 ? base : accepted ? "deluge" : "rejected",
+        state: { ...state, level: level - (state?.rainSpeed ?? 0) },
+      };
+    }
+  }
+}
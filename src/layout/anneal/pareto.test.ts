@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import type { AnnealProblem } from "./engine";
+import { dominates, insertParetoEntry, runParetoAnneal, type ParetoArchive, type ParetoEntry } from "./pareto";
+
+/** Two objectives pulling every index towards 0 and towards 20 respectively. */
+const PROBLEM: AnnealProblem = {
+  initialLayout: [60, -45, 80, 35, -70, 55],
+  evaluateCost: (layout) => {
+    const near = layout.reduce((acc, value) => acc + Math.abs(value), 0);
+    const far = layout.reduce((acc, value) => acc + Math.abs(value - 20), 0);
+    return { total: near + far, components: { near, far } };
+  },
+  initialTemperature: 20,
+  coolingRate: 0.998,
+  maxNudgeStep: 4,
+};
+
+const OBJECTIVES = [
+  { name: "near", terms: ["near"] },
+  { name: "far", terms: ["far"] },
+];
+
+function entry(iteration: number, objectives: number[]): ParetoEntry {
+  return { iteration, layout: [], objectives, costBreakdown: { total: 0, components: {} } };
+}
+
+test("insertParetoEntry keeps only non-dominated entries", () => {
+  let archive: ParetoArchive = { objectives: ["a", "b"], entries: [] };
+  archive = insertParetoEntry(archive, entry(1, [4, 4]), 8);
+  archive = insertParetoEntry(archive, entry(2, [2, 5]), 8);
+  archive = insertParetoEntry(archive, entry(3, [5, 5]), 8);
+  archive = insertParetoEntry(archive, entry(4, [3, 3]), 8);
+
+  assert.deepEqual(
+    archive.entries.map((kept) => kept.iteration),
+    [2, 4],
+  );
+  assert.equal(dominates([3, 3], [4, 4]), true);
+  assert.equal(dominates([2, 5], [3, 3]), false);
+});
+
+test("runParetoAnneal keeps improving the archive at the problem's temperature scale", () => {
+  const steps = 1500;
+  const { archive } = runParetoAnneal(PROBLEM, 5, { objectives: OBJECTIVES, steps, period: 50 });
+  const initial = PROBLEM.evaluateCost(PROBLEM.initialLayout);
+  const initialObjectives = [initial.components.near, initial.components.far];
+
+  assert.ok(archive.entries.length > 1);
+  assert.ok(Math.max(...archive.entries.map((kept) => kept.iteration)) > steps / 2);
+  assert.ok(archive.entries.every((kept) => dominates(kept.objectives, initialObjectives)));
+  assert.ok(Math.min(...archive.entries.map((kept) => kept.objectives[0] + kept.objectives[1])) < 0.5 * initial.total);
+});
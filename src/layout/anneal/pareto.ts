@@ -0,0 +1,263 @@
+import type { CostBreakdown } from "../cost/cost";
+import {
+  createRng,
+  DEFAULT_INITIAL_TEMPERATURE,
+  DEFAULT_MIN_TEMPERATURE,
+  initializeAnneal,
+  nextRng,
+  splitRng,
+  stepAnneal,
+  type AnnealProblem,
+  type AnnealRngState,
+  type AnnealState,
+  type AnnealStateSnapshot,
+  type AnnealTransition,
+} from "./engine";
+import type { BaseCoolingSchedule } from "./schedule";
+
+/** One minimised objective: the sum of the named cost components. */
+export interface ParetoObjective {
+  name: string;
+  terms: string[];
+}
+
+/**
+ * How the chain's scalarisation weights change every `period` steps:
+ * - `rotating`: walk the edges of the weight simplex, one objective to the next, in
+ *   `rotationSteps` changes per lap (default 4 per objective).
+ * - `random`: draw uniformly from the simplex on a separate RNG stream.
+ */
+export type ParetoWeighting = { type: "rotating"; rotationSteps?: number } | { type: "random" };
+
+export interface ParetoOptions {
+  objectives: ParetoObjective[];
+  steps: number;
+  weighting?: ParetoWeighting;
+  /** Steps between weight changes (default 100). */
+  period?: number;
+  /** Entries kept; the most crowded are dropped first (default 64). */
+  archiveSize?: number;
+  onStep?: (transition: AnnealTransition, state: AnnealState, weights: readonly number[]) => void;
+}
+
+export interface ParetoEntry {
+  iteration: number;
+  layout: number[];
+  /** Raw objective values, in `ParetoArchive.objectives` order. */
+  objectives: number[];
+  costBreakdown: CostBreakdown;
+}
+
+/** Non-dominated layouts found so far; no entry is dominated by another. */
+export interface ParetoArchive {
+  objectives: string[];
+  entries: ParetoEntry[];
+}
+
+export interface ParetoRunResult {
+  state: AnnealState;
+  archive: ParetoArchive;
+}
+
+const DEFAULT_PERIOD = 100;
+const DEFAULT_ARCHIVE_SIZE = 64;
+const WEIGHT_STREAM = 0x70a7e70;
+
+export function objectiveValues(objectives: readonly ParetoObjective[], cost: CostBreakdown): number[] {
+  return objectives.map((objective) =>
+    objective.terms.reduce((acc, term) => acc + (cost.components[term] ?? 0), 0),
+  );
+}
+
+/** True when `a` is no worse than `b` everywhere and better somewhere. */
+export function dominates(a: readonly number[], b: readonly number[]): boolean {
+  let better = false;
+  for (let i = 0; i < a.length; i += 1) {
+    if (a[i] > b[i]) {
+      return false;
+    }
+    better ||= a[i] < b[i];
+  }
+  return better;
+}
+
+/** NSGA-II crowding distance of each entry; boundary entries get `Infinity`. */
+function crowdingDistances(entries: readonly ParetoEntry[]): number[] {
+  const distances = new Array<number>(entries.length).fill(0);
+  const count = entries[0]?.objectives.length ?? 0;
+
+  for (let k = 0; k < count; k += 1) {
+    const order = entries.map((_, i) => i).sort((a, b) => entries[a].objectives[k] - entries[b].objectives[k]);
+    const low = entries[order[0]].objectives[k];
+    const range = entries[order[order.length - 1]].objectives[k] - low;
+    distances[order[0]] = Number.POSITIVE_INFINITY;
+    distances[order[order.length - 1]] = Number.POSITIVE_INFINITY;
+    for (let i = 1; i < order.length - 1; i += 1) {
+      const gap = entries[order[i + 1]].objectives[k] - entries[order[i - 1]].objectives[k];
+      distances[order[i]] += range > 0 ? gap / range : 0;
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Archive with `entry` added unless an existing entry dominates or equals it. Entries it
+ * dominates are removed; past `maxSize`, the most crowded entry is dropped.
+ */
+export function insertParetoEntry(archive: ParetoArchive, entry: ParetoEntry, maxSize: number): ParetoArchive {
+  const covered = archive.entries.some(
+    (existing) =>
+      dominates(existing.objectives, entry.objectives) ||
+      existing.objectives.every((value, i) => value === entry.objectives[i]),
+  );
+  if (covered) {
+    return archive;
+  }
+
+  const entries = [...archive.entries.filter((existing) => !dominates(entry.objectives, existing.objectives)), entry];
+  while (entries.length > Math.max(1, maxSize)) {
+    const distances = crowdingDistances(entries);
+    entries.splice(distances.indexOf(Math.min(...distances)), 1);
+  }
+
+  return { objectives: archive.objectives, entries };
+}
+
+function rotatingWeights(count: number, change: number, rotationSteps: number): number[] {
+  const position = ((change % rotationSteps) / rotationSteps) * count;
+  const from = Math.floor(position);
+  const fraction = position - from;
+  const weights = new Array<number>(count).fill(0);
+  weights[from % count] += 1 - fraction;
+  weights[(from + 1) % count] += fraction;
+  return weights;
+}
+
+function randomWeights(count: number, rngState: AnnealRngState): [number[], AnnealRngState] {
+  const draws: number[] = [];
+  let state = rngState;
+  for (let i = 0; i < count; i += 1) {
+    let u;
+    [u, state] = nextRng(state);
+    draws.push(-Math.log(1 - u));
+  }
+  const sum = draws.reduce((acc, value) => acc + value, 0);
+  return [draws.map((value) => (sum > 0 ? value / sum : 1 / count)), state];
+}
+
+/**
+ * `problem` with its temperature settings multiplied by `factor`: the start and floor
+ * temperatures, a Lundy-Mees `beta` (per unit of temperature) and an explicit deluge level.
+ */
+function scaleTemperatures(problem: AnnealProblem, factor: number): AnnealProblem {
+  const scaleBase = (base: BaseCoolingSchedule): BaseCoolingSchedule =>
+    base.type === "lundyMees" && base.beta !== undefined ? { ...base, beta: base.beta / factor } : base;
+  const { schedule, optimizer } = problem;
+
+  return {
+    ...problem,
+    initialTemperature: (problem.initialTemperature ?? DEFAULT_INITIAL_TEMPERATURE) * factor,
+    minTemperature: (problem.minTemperature ?? DEFAULT_MIN_TEMPERATURE) * factor,
+    schedule:
+      schedule && (schedule.type === "reheat" ? { ...schedule, base: scaleBase(schedule.base) } : scaleBase(schedule)),
+    optimizer:
+      optimizer?.type === "greatDeluge"
+        ? {
+            ...optimizer,
+            ...(optimizer.initialLevel !== undefined ? { initialLevel: optimizer.initialLevel * factor } : {}),
+            ...(optimizer.rainSpeed !== undefined ? { rainSpeed: optimizer.rainSpeed * factor } : {}),
+          }
+        : optimizer,
+  };
+}
+
+/**
+ * Anneals a weighted sum of the objectives, changing the weights every `period` steps,
+ * and archives every non-dominated layout the chain visits. Objectives are divided by
+ * their value at the initial layout before weighting so they share a scale; the chain's
+ * `total` is that weighted sum, while components stay as scored. The problem's
+ * temperatures are read in units of its own cost and rescaled by the same ratio.
+ */
+export function runParetoAnneal(problem: AnnealProblem, seed: number, options: ParetoOptions): ParetoRunResult {
+  const { objectives } = options;
+  if (objectives.length < 2) {
+    throw new Error("Pareto mode needs at least two objectives");
+  }
+  if (problem.normalization) {
+    throw new Error("Pareto mode scales objectives itself; unset the problem's normalization");
+  }
+
+  const count = objectives.length;
+  const period = Math.max(1, Math.floor(options.period ?? DEFAULT_PERIOD));
+  const archiveSize = options.archiveSize ?? DEFAULT_ARCHIVE_SIZE;
+  const weighting = options.weighting ?? { type: "rotating" };
+  const rotationSteps = Math.max(1, weighting.type === "rotating" ? (weighting.rotationSteps ?? 4 * count) : 1);
+  const initialCost = problem.evaluateCost(problem.initialLayout);
+  const scales = objectiveValues(objectives, initialCost).map((value) => (Math.abs(value) > 0 ? Math.abs(value) : 1));
+
+  let weightRng = splitRng(createRng(seed, problem.rng), WEIGHT_STREAM);
+  const nextWeights = (change: number): number[] => {
+    if (weighting.type === "rotating") {
+      return rotatingWeights(count, change, rotationSteps);
+    }
+    let weights;
+    [weights, weightRng] = randomWeights(count, weightRng);
+    return weights;
+  };
+
+  let weights = nextWeights(0);
+  const scalarise = (cost: CostBreakdown): CostBreakdown => ({
+    total: objectiveValues(objectives, cost).reduce((acc, value, k) => acc + (weights[k] * value) / scales[k], 0),
+    components: cost.components,
+  });
+
+  const rawTotal = Math.abs(initialCost.total);
+  const scalarTotal = Math.abs(scalarise(initialCost).total);
+  const state = initializeAnneal(
+    {
+      ...scaleTemperatures(problem, rawTotal > 0 && scalarTotal > 0 ? scalarTotal / rawTotal : 1),
+      evaluateCost: (layout) => scalarise(problem.evaluateCost(layout)),
+      evaluateDelta:
+        problem.evaluateDelta &&
+        ((current, move, nextLayout) => {
+          const delta = problem.evaluateDelta?.(current, move, nextLayout);
+          return delta && { ...delta, costBreakdown: scalarise(delta.costBreakdown) };
+        }),
+    },
+    seed,
+  );
+
+  const entryFor = (snapshot: AnnealStateSnapshot): ParetoEntry => ({
+    iteration: snapshot.iteration,
+    layout: [...snapshot.layout],
+    objectives: objectiveValues(objectives, snapshot.costBreakdown),
+    costBreakdown: { total: snapshot.costBreakdown.total, components: { ...snapshot.costBreakdown.components } },
+  });
+
+  let archive = insertParetoEntry(
+    { objectives: objectives.map((objective) => objective.name), entries: [] },
+    entryFor(state),
+    archiveSize,
+  );
+
+  for (let step = 1; step <= Math.max(0, Math.floor(options.steps)); step += 1) {
+    const transition = stepAnneal(state);
+    if (transition.accepted) {
+      archive = insertParetoEntry(archive, entryFor(transition.after), archiveSize);
+    }
+    options.onStep?.(transition, state, weights);
+
+    if (step % period === 0) {
+      weights = nextWeights(step / period);
+      state.costBreakdown = scalarise(state.costBreakdown);
+      state.best = { ...state.best, costBreakdown: scalarise(state.best.costBreakdown) };
+    }
+  }
+
+  return { state, archive };
+}
+
+export function paretoArchiveToJson(archive: ParetoArchive): string {
+  return JSON.stringify(archive);
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { initializeAnneal, runAnneal } from "./engine";
+import {
+  createRng,
+  nextRng,
+  randInt,
+  registerRngAlgorithm,
+  rngAlgorithmNames,
+  splitRng,
+  type AnnealRngState,
+} from "./rng";
+
+/** The engine's generator before RNG algorithms were pluggable. */
+function originalNextRng(state: { seed: number }): [number, { seed: number }] {
+  let x = state.seed | 0;
+  x ^= x << 13;
+  x ^= x >>> 17;
+  x ^= x << 5;
+  const seed = x === 0 ? 0x6d2b79f5 : x;
+  return [(seed >>> 0) / 4294967296, { seed }];
+}
+
+test("legacy RNG states replay the original xorshift32 stream", () => {
+  let legacy: AnnealRngState = createRng(12345);
+  let original = { seed: 12345 };
+
+  for (let i = 0; i < 200; i += 1) {
+    let value;
+    let expected;
+    if (i % 2 === 0) {
+      [value, legacy] = nextRng(legacy);
+      [expected, original] = originalNextRng(original);
+    } else {
+      [value, legacy] = randInt(37, legacy);
+      let u;
+      [u, original] = originalNextRng(original);
+      expected = Math.floor(u * 37);
+    }
+    assert.equal(value, expected);
+    assert.deepEqual(legacy, original);
+  }
+});
+
+test("legacy RNG states replay a saved annealing run", () => {
+  // Captured from the engine before RNG algorithms were pluggable.
+  const state = runAnneal(
+    initializeAnneal(
+      {
+        initialLayout: [5, 3, 8, 1, 9, 2],
+        evaluateCost: (layout) => {
+          const total = layout.reduce((acc, value, i) => acc + Math.abs(value - i), 0);
+          return { total, components: { displacement: total } };
+        },
+        initialTemperature: 2,
+      },
+      42,
+    ),
+    200,
+  );
+
+  assert.deepEqual(state.layout, [5, 4, 2, 2, 4, 8]);
+  assert.equal(state.costBreakdown.total, 12);
+  assert.deepEqual(state.rngState, { seed: -1621716693 });
+});
+
+test("named algorithms draw unbiased integers and split into distinct streams", () => {
+  let state = createRng(1, "pcg32");
+  const draws: number[] = [];
+  for (let i = 0; i < 1000; i += 1) {
+    let value;
+    [value, state] = randInt(10, state);
+    draws.push(value);
+  }
+
+  assert.ok(draws.every((value) => Number.isInteger(value) && value >= 0 && value < 10));
+  assert.equal(new Set(draws).size, 10);
+  assert.deepEqual(JSON.parse(JSON.stringify(state)), state);
+  assert.notEqual(nextRng(splitRng(createRng(1, "pcg32"), 1))[0], nextRng(splitRng(createRng(1, "pcg32"), 2))[0]);
+});
+
+test("rngAlgorithmNames lists the built-in algorithms followed by registered ones", () => {
+  assert.deepEqual(rngAlgorithmNames().slice(0, 3), ["xorshift32", "pcg32", "splitmix64"]);
+
+  registerRngAlgorithm({ name: "counter", create: (seed) => [seed >>> 0], next: ([n]) => [n, [(n + 1) >>> 0]] });
+  assert.equal(rngAlgorithmNames().at(-1), "counter");
+  assert.throws(() => createRng(1, "missing"), /Unknown RNG algorithm "missing"/);
+});
@@ -0,0 +1,213 @@
+/**
+ * Serializable RNG state. A state with only `seed` is the original engine format: a raw
+ * xorshift32 word whose integer draws use `floor(u * n)`, so saved runs replay bit-for-bit.
+ * States with an `algorithm` keep the generator's words in `words` and draw unbiased
+ * integers.
+ */
+export interface AnnealRngState {
+  /** Legacy: the xorshift32 word. Otherwise: the seed the stream was created from. */
+  seed: number;
+  algorithm?: string;
+  /** Sub-stream the state was created on. */
+  stream?: number;
+  /** Generator state as unsigned 32-bit words. */
+  words?: number[];
+}
+
+/**
+ * A generator over 32-bit words so its state survives JSON round trips.
+ */
+export interface RngAlgorithm {
+  name: string;
+  create: (seed: number, stream: number) => number[];
+  /** Next unsigned 32-bit output and the following state. */
+  next: (words: readonly number[]) => [number, number[]];
+}
+
+const UINT32 = 4294967296;
+const MASK_64 = (1n << 64n) - 1n;
+const PCG_MULTIPLIER = 6364136223846793005n;
+const SPLITMIX_GAMMA = 0x9e3779b97f4a7c15n;
+
+export function sanitizeSeed(seed: number): number {
+  const n = seed | 0;
+  return n === 0 ? 0x6d2b79f5 : n;
+}
+
+/**
+ * Independent 32-bit seed for stream `stream` of `seed` (murmur3 finaliser).
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  let x = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) | 0;
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  return sanitizeSeed(x ^ (x >>> 16));
+}
+
+function xorshift32(word: number): number {
+  let x = word | 0;
+  x ^= x << 13;
+  x ^= x >>> 17;
+  x ^= x << 5;
+  return sanitizeSeed(x);
+}
+
+function toWords(value: bigint): number[] {
+  return [Number((value >> 32n) & 0xffffffffn), Number(value & 0xffffffffn)];
+}
+
+function fromWords(hi: number, lo: number): bigint {
+  return (BigInt(hi >>> 0) << 32n) | BigInt(lo >>> 0);
+}
+
+function splitmix64(state: bigint): [bigint, bigint] {
+  const next = (state + SPLITMIX_GAMMA) & MASK_64;
+  let z = next;
+  z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+  z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+  return [z ^ (z >> 31n), next];
+}
+
+function pcgStep(state: bigint, increment: bigint): bigint {
+  return (state * PCG_MULTIPLIER + increment) & MASK_64;
+}
+
+const XORSHIFT32: RngAlgorithm = {
+  name: "xorshift32",
+  create: (seed, stream) => [(stream === 0 ? sanitizeSeed(seed) : deriveSeed(seed, stream)) >>> 0],
+  next: ([word]) => {
+    const next = xorshift32(word) >>> 0;
+    return [next, [next]];
+  },
+};
+
+/** PCG-XSH-RR 64/32; the stream selects the LCG increment. */
+const PCG32: RngAlgorithm = {
+  name: "pcg32",
+  create: (seed, stream) => {
+    const [initState] = splitmix64(BigInt(seed >>> 0));
+    const increment = ((BigInt(stream >>> 0) << 1n) | 1n) & MASK_64;
+    const state = pcgStep((pcgStep(0n, increment) + initState) & MASK_64, increment);
+    return [...toWords(state), ...toWords(increment)];
+  },
+  next: ([stateHi, stateLo, incHi, incLo]) => {
+    const old = fromWords(stateHi, stateLo);
+    const increment = fromWords(incHi, incLo);
+    const xorShifted = Number((((old >> 18n) ^ old) >> 27n) & 0xffffffffn);
+    const rotation = Number(old >> 59n);
+    const output = ((xorShifted >>> rotation) | (xorShifted << (-rotation & 31))) >>> 0;
+    return [output, [...toWords(pcgStep(old, increment)), incHi, incLo]];
+  },
+};
+
+const SPLITMIX64: RngAlgorithm = {
+  name: "splitmix64",
+  create: (seed, stream) => toWords((BigInt(seed >>> 0) << 32n) | BigInt(stream >>> 0)),
+  next: ([hi, lo]) => {
+    const [output, next] = splitmix64(fromWords(hi, lo));
+    return [Number(output >> 32n), toWords(next)];
+  },
+};
+
+const algorithms = new Map<string, RngAlgorithm>(
+  [XORSHIFT32, PCG32, SPLITMIX64].map((algorithm) => [algorithm.name, algorithm]),
+);
+
+export function registerRngAlgorithm(algorithm: RngAlgorithm): void {
+  if (algorithms.has(algorithm.name)) {
+    throw new Error(`RNG algorithm "${algorithm.name}" is already registered`);
+  }
+  algorithms.set(algorithm.name, algorithm);
+}
+
+/**
+ * Names of the built-in and registered algorithms, in registration order.
+ */
+export function rngAlgorithmNames(): string[] {
+  return [...algorithms.keys()];
+}
+
+function algorithmFor(name: string): RngAlgorithm {
+  const algorithm = algorithms.get(name);
+  if (!algorithm) {
+    throw new Error(`Unknown RNG algorithm "${name}"`);
+  }
+  return algorithm;
+}
+
+/**
+ * Fresh RNG state; without `algorithm` this is the legacy xorshift32 format.
+ */
+export function createRng(seed: number, algorithm?: string, stream = 0): AnnealRngState {
+  if (algorithm === undefined) {
+    return { seed: stream === 0 ? sanitizeSeed(seed) : deriveSeed(seed, stream) };
+  }
+
+  return { seed, algorithm, stream, words: algorithmFor(algorithm).create(seed, stream) };
+}
+
+/**
+ * Independent sub-stream of `state`, e.g. one per replica or per batch experiment.
+ * Splitting is deterministic and does not advance `state`.
+ */
+export function splitRng(state: AnnealRngState, stream: number): AnnealRngState {
+  if (state.algorithm === undefined) {
+    return { seed: deriveSeed(state.seed, stream) };
+  }
+
+  return createRng(state.seed, state.algorithm, deriveSeed(state.stream ?? 0, stream));
+}
+
+export function nextUint32(state: AnnealRngState): [number, AnnealRngState] {
+  if (state.algorithm === undefined) {
+    const seed = xorshift32(state.seed);
+    return [seed >>> 0, { seed }];
+  }
+
+  const [output, words] = algorithmFor(state.algorithm).next(state.words ?? []);
+  return [output, { ...state, words }];
+}
+
+/** Uniform float in [0, 1). */
+export function nextRng(state: AnnealRngState): [number, AnnealRngState] {
+  const [output, nextState] = nextUint32(state);
+  return [output / UINT32, nextState];
+}
+
+/**
+ * Uniform integer in [0, maxExclusive). Uses Lemire's multiply-and-reject method, which
+ * returns `floor(u * n)` for the accepted draws; legacy states skip the rejection step.
+ */
+export function randInt(maxExclusive: number, rngState: AnnealRngState): [number, AnnealRngState] {
+  if (maxExclusive <= 0) {
+    return [0, rngState];
+  }
+
+  const n = Math.floor(maxExclusive);
+  if (rngState.algorithm === undefined || n < 1 || n > UINT32) {
+    const [u, nextState] = nextRng(rngState);
+    return [Math.floor(u * maxExclusive), nextState];
+  }
+
+  const threshold = (UINT32 - n) % n;
+  let state = rngState;
+  for (;;) {
+    let output;
+    [output, state] = nextUint32(state);
+    const [high, low] = multiply32(output, n);
+    if (low >= threshold) {
+      return [high, state];
+    }
+  }
+}
+
+/** High and low 32-bit halves of `a * b` for `a`, `b` below 2^32. */
+function multiply32(a: number, b: number): [number, number] {
+  const product = a * b;
+  if (product <= Number.MAX_SAFE_INTEGER) {
+    return [Math.floor(product / UINT32), product % UINT32];
+  }
+
+  const wide = BigInt(a) * BigInt(b);
+  return [Number(wide >> 32n), Number(wide & 0xffffffffn)];
+}
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { deriveSeed, type AnnealProblem, type AnnealState, type AnnealTransition } from "./engine";
+import { runAnnealWithStopping, type AnnealStopOptions } from "./run";
+
+const displacementProblem: AnnealProblem = {
+  initialLayout: [9, -4, 7, 12, -8, 3],
+  evaluateCost: (layout) => {
+    const total = layout.reduce((acc, value, i) => acc + Math.abs(value - i), 0);
+    return { total, components: { displacement: total } };
+  },
+  maxNudgeStep: 3,
+};
+
+const flatProblem: AnnealProblem = {
+  ...displacementProblem,
+  evaluateCost: () => ({ total: 1, components: { flat: 1 } }),
+};
+
+test("a run stops on its step budget", async () => {
+  const result = await runAnnealWithStopping(displacementProblem, 3, { maxSteps: 40 });
+
+  assert.equal(result.stopReason, "budget");
+  assert.equal(result.totalSteps, 40);
+  assert.deepEqual(result.runs.map((run) => [run.seed, run.steps, run.stopReason]), [[3, 40, "budget"]]);
+  assert.equal(result.best.costBreakdown.total, result.runs[0].bestTotal);
+});
+
+test("a run stops after noImprovementSteps steps without a new best", async () => {
+  const result = await runAnnealWithStopping(flatProblem, 3, { maxSteps: 100, noImprovementSteps: 12 });
+
+  assert.equal(result.stopReason, "noImprovement");
+  assert.equal(result.totalSteps, 12);
+});
+
+test("the search stops once the best cost reaches targetCost", async () => {
+  const initial = displacementProblem.evaluateCost(displacementProblem.initialLayout).total;
+  const target = initial - 10;
+  const result = await runAnnealWithStopping(displacementProblem, 3, {
+    maxSteps: 5000,
+    targetCost: target,
+    restarts: 3,
+  });
+
+  assert.equal(result.stopReason, "targetCost");
+  assert.ok(result.best.costBreakdown.total <= target);
+  assert.ok(result.totalSteps > 0 && result.totalSteps < 5000);
+  assert.equal(result.runs.length, 1);
+
+  const immediate = await runAnnealWithStopping(displacementProblem, 3, { targetCost: initial });
+  assert.deepEqual([immediate.stopReason, immediate.totalSteps], ["targetCost", 0]);
+});
+
+test("the search stops when timeLimitMs elapses on the given clock", async () => {
+  let clock = 0;
+  const result = await runAnnealWithStopping(displacementProblem, 3, {
+    maxSteps: 1000,
+    timeLimitMs: 25,
+    restarts: 2,
+    now: () => clock,
+    onStep: () => {
+      clock += 1;
+    },
+  });
+
+  assert.deepEqual([result.stopReason, result.totalSteps, result.runs.length], ["timeLimit", 25, 1]);
+});
+
+test("the search stops when its signal is aborted, including from outside the loop", async () => {
+  const controller = new AbortController();
+  const result = await runAnnealWithStopping(displacementProblem, 3, {
+    maxSteps: 1000,
+    onStep: (_, state) => {
+      if (state.iteration === 7) {
+        controller.abort();
+      }
+    },
+    signal: controller.signal,
+  });
+  assert.deepEqual([result.stopReason, result.totalSteps], ["aborted", 7]);
+
+  const external = new AbortController();
+  const pending = runAnnealWithStopping(flatProblem, 3, { maxSteps: 1e9, yieldEvery: 16, signal: external.signal });
+  setImmediate(() => external.abort());
+  const aborted = await pending;
+  assert.equal(aborted.stopReason, "aborted");
+  assert.ok(aborted.totalSteps > 0 && aborted.totalSteps % 16 === 0);
+});
+
+/** Records the starting layout and the chain state of each run, in order. */
+function recordRuns(): { starts: number[][]; states: AnnealState[]; onStep: AnnealStopOptions["onStep"] } {
+  const starts: number[][] = [];
+  const states: AnnealState[] = [];
+  const onStep = (transition: AnnealTransition, state: AnnealState) => {
+    if (!states.includes(state)) {
+      states.push(state);
+      starts.push([...transition.before.layout]);
+    }
+  };
+  return { starts, states, onStep };
+}
+
+test("restarts reseed each run and start fresh from the initial layout", async () => {
+  const { starts, onStep } = recordRuns();
+  const result = await runAnnealWithStopping(displacementProblem, 3, {
+    maxSteps: 30,
+    restarts: 2,
+    restartFrom: "fresh",
+    onStep,
+  });
+
+  assert.equal(result.stopReason, "budget");
+  assert.equal(result.totalSteps, 90);
+  assert.deepEqual(result.runs.map((run) => run.seed), [3, deriveSeed(3, 1), deriveSeed(3, 2)]);
+  assert.deepEqual(starts, Array.from({ length: 3 }, () => displacementProblem.initialLayout));
+  assert.equal(result.best.costBreakdown.total, Math.min(...result.runs.map((run) => run.bestTotal)));
+});
+
+test("restarts from best continue from the best layout of the earlier runs", async () => {
+  const { starts, states, onStep } = recordRuns();
+  const result = await runAnnealWithStopping(displacementProblem, 3, {
+    maxSteps: 30,
+    restarts: 2,
+    restartFrom: "best",
+    onStep,
+  });
+
+  assert.equal(states.length, 3);
+  assert.deepEqual(starts[1], states[0].best.layout);
+  const [earlier] = states.slice(0, 2).sort((a, b) => a.best.costBreakdown.total - b.best.costBreakdown.total);
+  assert.deepEqual(starts[2], earlier.best.layout);
+  assert.ok(result.best.costBreakdown.total <= result.runs[0].bestTotal);
+
+  const again = await runAnnealWithStopping(displacementProblem, 3, { maxSteps: 30, restarts: 2, restartFrom: "best" });
+  assert.deepEqual(again.best.layout, result.best.layout);
+  assert.deepEqual(again.runs, result.runs);
+});
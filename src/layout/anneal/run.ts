@@ -0,0 +1,144 @@
+import {
+  cloneSnapshot,
+  deriveSeed,
+  initializeAnneal,
+  stepAnneal,
+  type AnnealProblem,
+  type AnnealState,
+  type AnnealStateSnapshot,
+  type AnnealTransition,
+} from "./engine";
+
+/**
+ * - `budget`: the run used its `maxSteps`.
+ * - `noImprovement`: the run's best cost did not improve for `noImprovementSteps` steps.
+ * - `targetCost`: a cost at or below `targetCost` was reached.
+ * - `timeLimit`: `timeLimitMs` elapsed.
+ * - `aborted`: `signal` was aborted.
+ * The first two end a single run and allow a restart; the others end the whole search.
+ */
+export type AnnealStopReason = "budget" | "noImprovement" | "targetCost" | "timeLimit" | "aborted";
+
+export interface AnnealStopOptions {
+  /** Steps per run (default 10000). */
+  maxSteps?: number;
+  targetCost?: number;
+  noImprovementSteps?: number;
+  /** Wall-clock limit for the whole search, including restarts. */
+  timeLimitMs?: number;
+  signal?: AbortSignal;
+  /** Extra runs after the first one ends on `budget` or `noImprovement`. */
+  restarts?: number;
+  /** `best` continues from the best layout so far, `fresh` from the problem's initial layout. */
+  restartFrom?: "best" | "fresh";
+  /** Steps between yields to the event loop, so abort and timer callbacks can run. */
+  yieldEvery?: number;
+  /** Clock for `timeLimitMs`; defaults to `Date.now`. */
+  now?: () => number;
+  onStep?: (transition: AnnealTransition, state: AnnealState) => void;
+}
+
+export interface AnnealRunSummary {
+  seed: number;
+  steps: number;
+  stopReason: AnnealStopReason;
+  bestTotal: number;
+}
+
+export interface AnnealRunResult {
+  /** Final state of the last run. */
+  state: AnnealState;
+  /** Best snapshot over every run. */
+  best: AnnealStateSnapshot;
+  stopReason: AnnealStopReason;
+  totalSteps: number;
+  runs: AnnealRunSummary[];
+}
+
+const DEFAULT_MAX_STEPS = 10000;
+const DEFAULT_YIELD_EVERY = 256;
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Anneal until a stopping rule fires, restarting up to `restarts` times when a run ends
+ * on its budget or stalls. Restart `k` uses seed `deriveSeed(seed, k)`, so a search is
+ * reproducible unless it is cut short by the clock or the signal.
+ */
+export async function runAnnealWithStopping(
+  problem: AnnealProblem,
+  seed: number,
+  options: AnnealStopOptions = {},
+): Promise<AnnealRunResult> {
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+  const maxSteps = Math.max(0, Math.floor(options.maxSteps ?? DEFAULT_MAX_STEPS));
+  const yieldEvery = Math.max(1, Math.floor(options.yieldEvery ?? DEFAULT_YIELD_EVERY));
+  const restarts = Math.max(0, Math.floor(options.restarts ?? 0));
+
+  const globalStop = (state: AnnealState): AnnealStopReason | undefined => {
+    if (options.signal?.aborted) {
+      return "aborted";
+    }
+    if (options.targetCost !== undefined && state.best.costBreakdown.total <= options.targetCost) {
+      return "targetCost";
+    }
+    if (options.timeLimitMs !== undefined && now() - startedAt >= options.timeLimitMs) {
+      return "timeLimit";
+    }
+    return undefined;
+  };
+
+  const runs: AnnealRunSummary[] = [];
+  let best: AnnealStateSnapshot | undefined;
+  let totalSteps = 0;
+  let state = initializeAnneal(problem, seed);
+  let runSeed = seed;
+
+  for (let run = 0; ; run += 1) {
+    let steps = 0;
+    let sinceImprovement = 0;
+    let stopReason = globalStop(state);
+
+    while (!stopReason) {
+      if (steps >= maxSteps) {
+        stopReason = "budget";
+        break;
+      }
+      if (options.noImprovementSteps !== undefined && sinceImprovement >= options.noImprovementSteps) {
+        stopReason = "noImprovement";
+        break;
+      }
+
+      const bestBefore = state.best.costBreakdown.total;
+      const transition = stepAnneal(state);
+      options.onStep?.(transition, state);
+      steps += 1;
+      totalSteps += 1;
+      sinceImprovement = state.best.costBreakdown.total < bestBefore ? 0 : sinceImprovement + 1;
+
+      if (steps % yieldEvery === 0) {
+        await yieldToEventLoop();
+      }
+      stopReason = globalStop(state);
+    }
+
+    if (!best || state.best.costBreakdown.total < best.costBreakdown.total) {
+      best = cloneSnapshot(state.best);
+    }
+    runs.push({ seed: runSeed, steps, stopReason, bestTotal: state.best.costBreakdown.total });
+
+    const canRestart = stopReason === "budget" || stopReason === "noImprovement";
+    if (!canRestart || run >= restarts) {
+      return { state, best, stopReason, totalSteps, runs };
+    }
+
+    runSeed = deriveSeed(seed, run + 1);
+    state = initializeAnneal(
+      options.restartFrom === "fresh" ? problem : { ...problem, initialLayout: [...best.layout] },
+      runSeed,
+    );
+  }
+}
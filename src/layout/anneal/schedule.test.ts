@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { advanceCooling, initialCoolingState, type CoolingSchedule, type CoolingState } from "./schedule";
+
+const DEFAULTS = { coolingRate: 0.5, minTemperature: 0.01 };
+
+interface CurvePoint {
+  accepted?: boolean;
+  total?: number;
+}
+
+/** Temperatures for iterations 1..n, starting from `start` at iteration 0. */
+function curve(
+  schedule: CoolingSchedule,
+  start: number,
+  points: CurvePoint[],
+): { temperatures: number[]; cooling: CoolingState } {
+  let cooling = initialCoolingState(schedule, start, 100);
+  let temperature = start;
+  const temperatures = points.map((point, i) => {
+    [temperature, cooling] = advanceCooling(
+      schedule,
+      cooling,
+      { iteration: i + 1, temperature, accepted: point.accepted ?? false, total: point.total ?? 100 },
+      DEFAULTS,
+    );
+    return temperature;
+  });
+  return { temperatures, cooling };
+}
+
+const steps = (n: number, point: CurvePoint = {}): CurvePoint[] => Array.from({ length: n }, () => point);
+
+const assertClose = (actual: number[], expected: number[]) => {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((value, i) => assert.ok(Math.abs(value - expected[i]) < 1e-9, `${i}: ${value} vs ${expected[i]}`));
+};
+
+test("geometric cooling multiplies by the rate down to the floor", () => {
+  assertClose(curve({ type: "geometric" }, 8, steps(3)).temperatures, [4, 2, 1]);
+  assertClose(curve({ type: "geometric", rate: 0.1 }, 10, steps(4)).temperatures, [1, 0.1, 0.01, 0.01]);
+});
+
+test("linear cooling falls evenly to the floor over its steps", () => {
+  assertClose(curve({ type: "linear", steps: 4 }, 4.01, steps(6)).temperatures, [3.01, 2.01, 1.01, 0.01, 0.01, 0.01]);
+});
+
+test("logarithmic cooling follows T0 ln 2 / ln(k + 2)", () => {
+  const { temperatures } = curve({ type: "logarithmic" }, 10, steps(6));
+
+  assertClose(
+    temperatures,
+    [1, 2, 3, 4, 5, 6].map((k) => (10 * Math.LN2) / Math.log(k + 2)),
+  );
+  assertClose([temperatures[1]], [5]);
+});
+
+test("Lundy-Mees cooling applies T / (1 + beta T)", () => {
+  assertClose(curve({ type: "lundyMees", beta: 0.1 }, 10, steps(3)).temperatures, [5, 10 / 3, 2.5]);
+});
+
+test("adaptive cooling cools above the target acceptance and heats below it", () => {
+  const schedule: CoolingSchedule = { type: "adaptive", targetAcceptance: 0.5, rate: 0.5, window: 4 };
+
+  const accepting = curve(schedule, 1, steps(3, { accepted: true }));
+  assertClose(accepting.temperatures, [0.5, 0.25, 0.125]);
+  assert.ok(accepting.cooling.acceptanceRate > 0.5);
+
+  const rejecting = curve(schedule, 1, steps(3, { accepted: false }));
+  assertClose(rejecting.temperatures, [2, 4, 8]);
+  assert.ok(rejecting.cooling.acceptanceRate < 0.5);
+});
+
+test("reheat restarts the base schedule after a stall and waits again after an improvement", () => {
+  const schedule: CoolingSchedule = {
+    type: "reheat",
+    base: { type: "geometric" },
+    stallSteps: 3,
+    reheatFraction: 0.25,
+  };
+  const { temperatures, cooling } = curve(schedule, 16, [
+    ...steps(3),
+    { total: 90 },
+    ...steps(4),
+  ]);
+
+  // Stalls at iterations 1-3 reheat at 3; the improvement at 4 resets the stall count.
+  assertClose(temperatures, [8, 4, 4, 2, 1, 0.5, 4, 2]);
+  assert.equal(cooling.reheats, 2);
+  assert.equal(cooling.epochStart, 7);
+  assert.equal(cooling.bestTotal, 90);
+});
@@ -0,0 +1,144 @@
+/**
+ * Cooling schedules. Temperatures are floored at the problem's `minTemperature`.
+ * - `geometric`: `T * rate` each step (the engine default, `rate` = `coolingRate`).
+ * - `linear`: falls from the start temperature to the floor over `steps` iterations.
+ * - `logarithmic`: `T0 * ln 2 / ln(k + 2)`, slow enough for the classic convergence bound.
+ * - `lundyMees`: `T / (1 + beta * T)`.
+ * - `adaptive`: cools while the recent acceptance ratio is above `targetAcceptance`
+ *   and heats while it is below.
+ * - `reheat`: runs `base`, and after `stallSteps` steps without a new best cost restarts
+ *   it from `reheatFraction` of the initial temperature.
+ */
+export type CoolingSchedule =
+  | { type: "geometric"; rate?: number }
+  | { type: "linear"; steps?: number }
+  | { type: "logarithmic" }
+  | { type: "lundyMees"; beta?: number }
+  | { type: "adaptive"; targetAcceptance?: number; rate?: number; window?: number }
+  | { type: "reheat"; base: BaseCoolingSchedule; stallSteps?: number; reheatFraction?: number };
+
+export type BaseCoolingSchedule = Exclude<CoolingSchedule, { type: "reheat" }>;
+
+/**
+ * Bookkeeping a schedule carries between steps. Kept on each snapshot so a chain can be
+ * resumed from any point of its trace.
+ */
+export interface CoolingState {
+  initialTemperature: number;
+  /** Iteration and temperature the current cooling run started from (moves on reheat). */
+  epochStart: number;
+  epochTemperature: number;
+  /** Moving average of the acceptance indicator. */
+  acceptanceRate: number;
+  bestTotal: number;
+  stallSteps: number;
+  reheats: number;
+}
+
+export interface CoolingObservation {
+  /** Iteration the new temperature applies to. */
+  iteration: number;
+  temperature: number;
+  accepted: boolean;
+  /** Cost total after the step. */
+  total: number;
+}
+
+export interface CoolingDefaults {
+  coolingRate: number;
+  minTemperature: number;
+}
+
+const DEFAULT_LINEAR_STEPS = 10000;
+const DEFAULT_LUNDY_MEES_BETA = 0.001;
+const DEFAULT_TARGET_ACCEPTANCE = 0.44;
+const DEFAULT_ACCEPTANCE_WINDOW = 100;
+const DEFAULT_STALL_STEPS = 500;
+const DEFAULT_REHEAT_FRACTION = 0.5;
+
+export function initialCoolingState(
+  schedule: CoolingSchedule,
+  temperature: number,
+  total: number,
+): CoolingState {
+  const base = schedule.type === "reheat" ? schedule.base : schedule;
+  return {
+    initialTemperature: temperature,
+    epochStart: 0,
+    epochTemperature: temperature,
+    acceptanceRate: base.type === "adaptive" ? base.targetAcceptance ?? DEFAULT_TARGET_ACCEPTANCE : 0,
+    bestTotal: total,
+    stallSteps: 0,
+    reheats: 0,
+  };
+}
+
+function baseTemperature(
+  schedule: BaseCoolingSchedule,
+  cooling: CoolingState,
+  observation: CoolingObservation,
+  defaults: CoolingDefaults,
+): number {
+  const { temperature } = observation;
+  const elapsed = observation.iteration - cooling.epochStart;
+
+  switch (schedule.type) {
+    case "geometric":
+      return temperature * (schedule.rate ?? defaults.coolingRate);
+    case "linear": {
+      const steps = Math.max(1, schedule.steps ?? DEFAULT_LINEAR_STEPS);
+      const span = cooling.epochTemperature - defaults.minTemperature;
+      return cooling.epochTemperature - span * Math.min(1, elapsed / steps);
+    }
+    case "logarithmic":
+      return (cooling.epochTemperature * Math.LN2) / Math.log(elapsed + 2);
+    case "lundyMees":
+      return temperature / (1 + (schedule.beta ?? DEFAULT_LUNDY_MEES_BETA) * temperature);
+    case "adaptive": {
+      const rate = schedule.rate ?? defaults.coolingRate;
+      const target = schedule.targetAcceptance ?? DEFAULT_TARGET_ACCEPTANCE;
+      return cooling.acceptanceRate > target ? temperature * rate : temperature / rate;
+    }
+  }
+}
+
+/**
+ * Temperature for the next iteration plus the updated schedule bookkeeping.
+ */
+export function advanceCooling(
+  schedule: CoolingSchedule,
+  cooling: CoolingState,
+  observation: CoolingObservation,
+  defaults: CoolingDefaults,
+): [number, CoolingState] {
+  const base = schedule.type === "reheat" ? schedule.base : schedule;
+  const window = base.type === "adaptive" ? Math.max(1, base.window ?? DEFAULT_ACCEPTANCE_WINDOW) : 1;
+  const improved = observation.total < cooling.bestTotal;
+
+  const next: CoolingState = {
+    ...cooling,
+    acceptanceRate:
+      cooling.acceptanceRate + ((observation.accepted ? 1 : 0) - cooling.acceptanceRate) / window,
+    bestTotal: Math.min(cooling.bestTotal, observation.total),
+    stallSteps: improved ? 0 : cooling.stallSteps + 1,
+  };
+
+  if (schedule.type === "reheat" && next.stallSteps >= Math.max(1, schedule.stallSteps ?? DEFAULT_STALL_STEPS)) {
+    const temperature = Math.max(
+      defaults.minTemperature,
+      next.initialTemperature * (schedule.reheatFraction ?? DEFAULT_REHEAT_FRACTION),
+    );
+    return [
+      temperature,
+      {
+        ...next,
+        epochStart: observation.iteration,
+        epochTemperature: temperature,
+        stallSteps: 0,
+        reheats: next.reheats + 1,
+      },
+    ];
+  }
+
+  return [Math.max(defaults.minTemperature, baseTemperature(base, next, observation, defaults)), next];
+}
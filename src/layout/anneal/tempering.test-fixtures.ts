@@ -0,0 +1,20 @@
+import type { AnnealProblem } from "./engine";
+
+/** Problem factories for the worker-thread tests in `tempering.test.ts`. */
+export function createAnnealProblem(options: { target: number }): AnnealProblem {
+  return {
+    initialLayout: [9, -4, 7, 12, -8, 3],
+    evaluateCost: (layout) => {
+      const total = layout.reduce((acc, value, i) => acc + Math.abs(value - i - options.target), 0);
+      return { total, components: { displacement: total } };
+    },
+  };
+}
+
+export function createFailingProblem(): AnnealProblem {
+  throw new Error("factory failed");
+}
+
+export function createExitingProblem(): AnnealProblem {
+  process.exit(3);
+}
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { resolve } from "node:path";
+import { test } from "node:test";
+
+import { runParallelTempering, type ParallelTemperingOptions } from "./tempering";
+
+const FACTORY_PATH = resolve(__dirname, "tempering.test-fixtures.ts");
+
+/** The `tsx/cjs` hook of the tsx running these tests, so workers can load TypeScript too. */
+function typeScriptPreload(): string[] {
+  const preflight = process.execArgv.find((arg) => arg.endsWith("preflight.cjs"));
+  return preflight ? [createRequire(preflight).resolve("tsx/cjs")] : [];
+}
+
+const options = (exportName = "createAnnealProblem"): ParallelTemperingOptions => ({
+  problem: { modulePath: FACTORY_PATH, exportName, options: { target: 2 } },
+  seed: 11,
+  replicas: 3,
+  rounds: 6,
+  stepsPerRound: 25,
+  workerPreload: typeScriptPreload(),
+});
+
+test("runParallelTempering gives the same result in worker threads and in-process", async () => {
+  const threaded = await runParallelTempering(options());
+  const inProcess = await runParallelTempering({ ...options(), workers: false });
+
+  assert.equal(threaded.replicas.length, 3);
+  assert.equal(threaded.swaps.length, 6);
+  assert.equal(threaded.replicas[0].trace.length, 150);
+  assert.deepEqual(threaded.best, inProcess.best);
+  assert.deepEqual(threaded.swaps, inProcess.swaps);
+  assert.deepEqual(
+    threaded.replicas.map((replica) => replica.final),
+    inProcess.replicas.map((replica) => replica.final),
+  );
+});
+
+test("runParallelTempering starts workers from an explicit workerEntry", async () => {
+  const explicit = await runParallelTempering({
+    ...options(),
+    workerEntry: resolve(__dirname, "temperingWorker.ts"),
+  });
+  const inProcess = await runParallelTempering({ ...options(), workers: false });
+
+  assert.deepEqual(explicit.best, inProcess.best);
+});
+
+test("runParallelTempering rejects when a worker's factory throws", async () => {
+  await assert.rejects(runParallelTempering(options("createFailingProblem")), /factory failed/);
+});
+
+test("runParallelTempering rejects when a worker exits without replying", async () => {
+  await assert.rejects(runParallelTempering(options("createExitingProblem")), /exited with code 3/);
+});
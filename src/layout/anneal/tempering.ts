@@ -0,0 +1,370 @@
+import { dirname, extname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { Worker } from "node:worker_threads";
+
+import {
+  cloneSnapshot,
+  createRng,
+  deriveSeed,
+  initializeAnneal,
+  nextRng,
+  stepAnneal,
+  type AnnealProblem,
+  type AnnealRngState,
+  type AnnealState,
+  type AnnealStateSnapshot,
+  type AnnealTransition,
+} from "./engine";
+
+/**
+ * A module that builds the problem inside each worker, since an {@link AnnealProblem}
+ * holds functions and cannot be sent across threads.
+ */
+export interface ProblemFactoryRef {
+  modulePath: string;
+  /** Export called with `options`; defaults to `createAnnealProblem`. */
+  exportName?: string;
+  /** Structured-cloneable argument for the factory. */
+  options?: unknown;
+}
+
+export interface ParallelTemperingOptions {
+  /** A problem object runs every replica in-process; a factory ref allows worker threads. */
+  problem: AnnealProblem | ProblemFactoryRef;
+  /** Master seed; replica and swap RNG streams are derived from it. */
+  seed: number;
+  replicas: number;
+  /** Swap rounds; replicas run `stepsPerRound` steps between swap attempts. */
+  rounds: number;
+  stepsPerRound: number;
+  /** Explicit temperature ladder (one per replica); otherwise geometric from min to max. */
+  temperatures?: number[];
+  minTemperature?: number;
+  maxTemperature?: number;
+  /** Run replicas in worker threads when `problem` is a factory ref (default true). */
+  workers?: boolean;
+  /**
+   * Modules each worker `require`s before loading the replica code, e.g. `tsx/cjs` when
+   * running from TypeScript sources: Node 20 workers do not inherit loader hooks.
+   */
+  workerPreload?: string[];
+  /**
+   * Path of the `temperingWorker` module. Defaults to the one next to this file under
+   * CommonJS; ES module builds, which have no `__filename`, must set it.
+   */
+  workerEntry?: string;
+  /** Keep every replica transition (default true). */
+  captureTrace?: boolean;
+}
+
+export interface ReplicaSwap {
+  round: number;
+  /** Ladder slots whose replicas were compared. */
+  slots: [number, number];
+  replicas: [number, number];
+  accepted: boolean;
+}
+
+export interface ReplicaResult {
+  index: number;
+  seed: number;
+  /** Ladder slot the replica ended on. */
+  slot: number;
+  final: AnnealStateSnapshot;
+  best: AnnealStateSnapshot;
+  trace: AnnealTransition[];
+}
+
+export interface ParallelTemperingResult {
+  temperatures: number[];
+  best: { replica: number; snapshot: AnnealStateSnapshot };
+  replicas: ReplicaResult[];
+  swaps: ReplicaSwap[];
+}
+
+export interface ReplicaSegment {
+  final: AnnealStateSnapshot;
+  best: AnnealStateSnapshot;
+  trace: AnnealTransition[];
+}
+
+/** Messages understood by the worker entry (`temperingWorker`). */
+export type ReplicaWorkerRequest = {
+  type: "run";
+  temperature: number;
+  steps: number;
+  captureTrace: boolean;
+};
+
+export interface ReplicaWorkerData {
+  problem: ProblemFactoryRef;
+  seed: number;
+  /** Absolute path of the `temperingWorker` module. */
+  entry: string;
+  preload: string[];
+}
+
+const DEFAULT_FACTORY_EXPORT = "createAnnealProblem";
+const DEFAULT_MIN_TEMPERATURE = 0.1;
+const DEFAULT_MAX_TEMPERATURE = 10;
+
+interface ReplicaRunner {
+  run: (request: ReplicaWorkerRequest) => Promise<ReplicaSegment>;
+  close: () => Promise<void>;
+}
+
+export function isProblemFactoryRef(problem: AnnealProblem | ProblemFactoryRef): problem is ProblemFactoryRef {
+  return typeof (problem as ProblemFactoryRef).modulePath === "string";
+}
+
+/**
+ * Loads a module with `require` when this file runs as CommonJS, so require hooks such as
+ * a TypeScript loader apply, and with `import()` for ES modules.
+ */
+async function loadModule(path: string): Promise<Record<string, unknown>> {
+  if (typeof require === "function") {
+    try {
+      return require(path);
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ERR_REQUIRE_ESM") {
+        throw error;
+      }
+    }
+  }
+
+  return import(pathToFileURL(path).href);
+}
+
+function workerEntry(options: ParallelTemperingOptions): string {
+  if (options.workerEntry) {
+    return resolve(options.workerEntry);
+  }
+  if (typeof __filename !== "string") {
+    throw new Error("Set workerEntry to the temperingWorker module when running as an ES module");
+  }
+  return resolve(dirname(__filename), `temperingWorker${extname(__filename)}`);
+}
+
+export async function loadProblemFactory(ref: ProblemFactoryRef): Promise<AnnealProblem> {
+  const module = await loadModule(resolve(ref.modulePath));
+  const exportName = ref.exportName ?? DEFAULT_FACTORY_EXPORT;
+  const factory = module[exportName] ?? (module.default as Record<string, unknown> | undefined)?.[exportName];
+  if (typeof factory !== "function") {
+    throw new Error(`Module ${ref.modulePath} does not export a function "${exportName}"`);
+  }
+
+  return factory(ref.options);
+}
+
+/**
+ * A chain that keeps whatever temperature it is given: cooling is disabled and the
+ * temperature is set before each segment.
+ */
+export function createReplicaChain(problem: AnnealProblem, seed: number): AnnealState {
+  return initializeAnneal(
+    { ...problem, schedule: undefined, coolingRate: 1, minTemperature: 0, captureFullTrace: false },
+    seed,
+  );
+}
+
+export function runReplicaSegment(chain: AnnealState, request: ReplicaWorkerRequest): ReplicaSegment {
+  const trace: AnnealTransition[] = [];
+  chain.temperature = request.temperature;
+
+  for (let i = 0; i < request.steps; i += 1) {
+    const transition = stepAnneal(chain);
+    if (request.captureTrace) {
+      trace.push(transition);
+    }
+  }
+
+  return { final: cloneSnapshot(chain), best: cloneSnapshot(chain.best), trace };
+}
+
+function temperatureLadder(options: ParallelTemperingOptions, count: number): number[] {
+  if (options.temperatures) {
+    if (options.temperatures.length !== count) {
+      throw new Error(`Expected ${count} temperatures, got ${options.temperatures.length}`);
+    }
+    return [...options.temperatures].sort((a, b) => a - b);
+  }
+
+  const min = options.minTemperature ?? DEFAULT_MIN_TEMPERATURE;
+  const max = options.maxTemperature ?? DEFAULT_MAX_TEMPERATURE;
+  if (count === 1) {
+    return [min];
+  }
+
+  return Array.from({ length: count }, (_, i) => min * (max / min) ** (i / (count - 1)));
+}
+
+function inProcessRunner(problem: AnnealProblem, seed: number): ReplicaRunner {
+  const chain = createReplicaChain(problem, seed);
+  return {
+    run: async (request) => runReplicaSegment(chain, request),
+    close: async () => undefined,
+  };
+}
+
+/**
+ * Worker bootstrap, evaluated as CommonJS so the entry goes through `require` (and any
+ * preloaded require hooks) even when the parent runs with ESM loader flags.
+ */
+const WORKER_BOOTSTRAP = `
+const { workerData } = require("node:worker_threads");
+for (const path of workerData.preload) require(path);
+try {
+  require(workerData.entry);
+} catch (error) {
+  if (error.code !== "ERR_REQUIRE_ESM") throw error;
+  import(require("node:url").pathToFileURL(workerData.entry).href);
+}
+`;
+
+function workerRunner(
+  problem: ProblemFactoryRef,
+  seed: number,
+  entry: string,
+  preload: readonly string[],
+): ReplicaRunner {
+  const workerData: ReplicaWorkerData = { problem, seed, entry, preload: [...preload] };
+  const worker = new Worker(WORKER_BOOTSTRAP, { eval: true, workerData, execArgv: process.execArgv });
+
+  let pending: { resolve: (segment: ReplicaSegment) => void; reject: (error: Error) => void } | undefined;
+  let failure: Error | undefined;
+  let closing = false;
+  const fail = (error: Error) => {
+    failure ??= error;
+    pending?.reject(failure);
+    pending = undefined;
+  };
+
+  worker.on("message", (segment: ReplicaSegment) => {
+    pending?.resolve(segment);
+    pending = undefined;
+  });
+  worker.on("error", fail);
+  worker.on("exit", (code) => {
+    if (!closing) {
+      fail(new Error(`Replica worker for seed ${seed} exited with code ${code}`));
+    }
+  });
+
+  return {
+    run: (request) =>
+      new Promise<ReplicaSegment>((resolvePromise, reject) => {
+        if (failure) {
+          reject(failure);
+          return;
+        }
+        pending = { resolve: resolvePromise, reject };
+        worker.postMessage(request);
+      }),
+    close: async () => {
+      closing = true;
+      await worker.terminate();
+    },
+  };
+}
+
+/**
+ * Replica-exchange annealing: `replicas` chains at fixed ladder temperatures, each on its
+ * own RNG stream, with Metropolis swap attempts between neighbouring temperatures after
+ * every round (even slot pairs on even rounds, odd pairs on odd rounds).
+ * Swaps exchange temperatures, so each replica's trace is one continuous chain. Swap
+ * decisions use a separate stream on the calling thread, so results depend only on the
+ * master seed and replica count, not on thread scheduling.
+ */
+export async function runParallelTempering(
+  options: ParallelTemperingOptions,
+): Promise<ParallelTemperingResult> {
+  const count = Math.max(1, Math.floor(options.replicas));
+  const temperatures = temperatureLadder(options, count);
+  const seeds = Array.from({ length: count }, (_, i) => deriveSeed(options.seed, i));
+  const captureTrace = options.captureTrace ?? true;
+
+  let runners: ReplicaRunner[];
+  if (isProblemFactoryRef(options.problem) && options.workers !== false) {
+    const ref = options.problem;
+    const entry = workerEntry(options);
+    runners = seeds.map((seed) => workerRunner(ref, seed, entry, options.workerPreload ?? []));
+  } else {
+    const problem = isProblemFactoryRef(options.problem)
+      ? await loadProblemFactory(options.problem)
+      : options.problem;
+    runners = seeds.map((seed) => inProcessRunner(problem, seed));
+  }
+
+  const replicaAtSlot = seeds.map((_, i) => i);
+  const segments: (ReplicaSegment | undefined)[] = new Array(count);
+  const traces: AnnealTransition[][] = seeds.map(() => []);
+  const swaps: ReplicaSwap[] = [];
+  let rng: AnnealRngState = createRng(options.seed, undefined, count);
+
+  try {
+    for (let round = 0; round < Math.max(0, Math.floor(options.rounds)); round += 1) {
+      const results = await Promise.all(
+        replicaAtSlot.map((replica, slot) =>
+          runners[replica].run({
+            type: "run",
+            temperature: temperatures[slot],
+            steps: options.stepsPerRound,
+            captureTrace,
+          }),
+        ),
+      );
+      replicaAtSlot.forEach((replica, slot) => {
+        segments[replica] = results[slot];
+        traces[replica].push(...results[slot].trace);
+      });
+
+      for (let slot = round % 2; slot + 1 < count; slot += 2) {
+        const a = replicaAtSlot[slot];
+        const b = replicaAtSlot[slot + 1];
+        const energyA = segments[a]?.final.costBreakdown.total ?? 0;
+        const energyB = segments[b]?.final.costBreakdown.total ?? 0;
+        const exponent = (1 / temperatures[slot] - 1 / temperatures[slot + 1]) * (energyA - energyB);
+
+        let accepted = exponent >= 0;
+        if (!accepted) {
+          let u;
+          [u, rng] = nextRng(rng);
+          accepted = u < Math.exp(exponent);
+        }
+        if (accepted) {
+          replicaAtSlot[slot] = b;
+          replicaAtSlot[slot + 1] = a;
+        }
+        swaps.push({ round, slots: [slot, slot + 1], replicas: [a, b], accepted });
+      }
+    }
+
+    const replicas: ReplicaResult[] = [];
+    for (let index = 0; index < count; index += 1) {
+      const segment =
+        segments[index] ??
+        (await runners[index].run({ type: "run", temperature: temperatures[index], steps: 0, captureTrace }));
+      replicas.push({
+        index,
+        seed: seeds[index],
+        slot: replicaAtSlot.indexOf(index),
+        final: segment.final,
+        best: segment.best,
+        trace: traces[index],
+      });
+    }
+
+    const winner = replicas.reduce((acc, replica) =>
+      replica.best.costBreakdown.total < acc.best.costBreakdown.total ? replica : acc,
+    );
+
+    return {
+      temperatures,
+      best: { replica: winner.index, snapshot: winner.best },
+      replicas,
+      swaps,
+    };
+  } finally {
+    await Promise.all(runners.map((runner) => runner.close()));
+  }
+}
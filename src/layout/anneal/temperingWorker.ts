@@ -0,0 +1,22 @@
+import { parentPort, workerData } from "node:worker_threads";
+
+import type { AnnealState } from "./engine";
+import {
+  createReplicaChain,
+  loadProblemFactory,
+  runReplicaSegment,
+  type ReplicaWorkerData,
+  type ReplicaWorkerRequest,
+} from "./tempering";
+
+/**
+ * Worker entry for `runParallelTempering`: builds one replica chain from the problem
+ * factory and answers each run request with the resulting segment.
+ */
+const data = workerData as ReplicaWorkerData;
+let chain: Promise<AnnealState> | undefined;
+
+parentPort?.on("message", async (request: ReplicaWorkerRequest) => {
+  chain ??= loadProblemFactory(data.problem).then((problem) => createReplicaChain(problem, data.seed));
+  parentPort?.postMessage(runReplicaSegment(await chain, request));
+});
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { appendHistoryPoint, historyToCsv, summarizeCostTrends } from "../debug/history";
+import { computeCost, createCostTermRegistry, registerCostTerm, resolveCostWeights } from "./cost";
+
+test("resolveCostWeights layers explicit weights over a preset and rejects unknown presets", () => {
+  assert.deepEqual(resolveCostWeights({ weights: { X: 5 } }), { X: 5 });
+  assert.equal(resolveCostWeights({ preset: "readable", weights: { X: 5 } }).X, 5);
+  assert.equal(resolveCostWeights({ preset: "readable" }).B, 2);
+
+  // Configs read from JSON can name any preset.
+  for (const preset of ["toString", "constructor", "__proto__", "fancy"]) {
+    assert.throws(
+      () => resolveCostWeights(JSON.parse(JSON.stringify({ preset }))),
+      new RegExp(`Unknown cost weight preset "${preset}"`),
+    );
+  }
+});
+
+test("a registered custom term shows up in the breakdown and the history CSV header", () => {
+  const registry = registerCostTerm(createCostTermRegistry(), {
+    name: "Q_crowd",
+    defaultWeight: 2,
+    compute: ({ layout }) => (layout.positions ?? []).length,
+  });
+  assert.throws(() => registerCostTerm(registry, { name: "Q_crowd", defaultWeight: 1 }), /already registered/);
+
+  const cost = computeCost({ positions: [1, -2, 3] }, { crossings: 1 }, { registry, weights: { B: 0 } });
+  assert.equal(cost.components.Q_crowd, 6);
+  assert.deepEqual(Object.keys(cost.components).slice(-2), ["S", "Q_crowd"]);
+  assert.equal(cost.total, 6 + 1 + 6);
+
+  const history = appendHistoryPoint([], { iter: 1, temp: 10, accepted: true, moveType: "nudge", cost });
+  const [header, row] = historyToCsv(history).split("\n");
+  assert.equal(header, "iter,temp,accepted,moveType,total,L,X,B,F_out,F_down,F,S_span,S_waste,S,Q_crowd");
+  assert.equal(row.split(",").at(-1), "6");
+  assert.ok(summarizeCostTrends(history).terms.some((term) => term.term === "Q_crowd"));
+});
@@ -1,14 +1,9 @@
+/**
+ * Weighted cost per registered term, keyed by term name, plus their sum.
+ */
 export interface CostBreakdown {
   total: number;
-  L: number;
-  X: number;
-  B: number;
-  F_out: number;
-  F_down: number;
-  F: number;
-  S_span: number;
-  S_waste: number;
-  S: number;
+  components: Record<string, number>;
 }
 
 export interface LayoutCostInput {
@@ -24,6 +19,14 @@ export interface LayoutCostInput {
    * Optional precomputed waste term.
    */
   waste?: number;
+  /** Length per edge. Feeds `A_len`. */
+  edgeLengths?: readonly number[];
+  /** Misalignment of nodes that should share a row or column. Feeds `A_align`. */
+  alignment?: number;
+  /** Distance from mirror symmetry between counterpart subgraphs. Feeds `A_sym`. */
+  symmetry?: number;
+  /** Horizontal offset of parents from the centre of their children. Feeds `A_parent`. */
+  parentCentering?: number;
 }
 
 export interface RoutingCostInput {
@@ -39,22 +42,34 @@ export interface RoutingCostInput {
   spans?: readonly number[];
 }
 
+export interface CostInput {
+  layout: LayoutCostInput;
+  routing: RoutingCostInput;
+}
+
+export interface CostTerm {
+  name: string;
+  /** Raw (unweighted) value. Aggregates omit it and sum their children's raw values. */
+  compute?: (input: CostInput) => number;
+  defaultWeight: number;
+  /** Aggregate this term also feeds, e.g. `F_out` and `F_down` feed `F`. */
+  parent?: string;
+}
+
+/** Ordered cost terms; components and the total follow this order. */
+export interface CostTermRegistry {
+  terms: CostTerm[];
+}
+
+export type CostWeightPreset = "compact" | "readable" | "publication";
+
 export interface CostConfig {
-  weights?: Partial<Record<Exclude<keyof CostBreakdown, "total">, number>>;
-}
-
-const ZERO_COST: CostBreakdown = {
-  total: 0,
-  L: 0,
-  X: 0,
-  B: 0,
-  F_out: 0,
-  F_down: 0,
-  F: 0,
-  S_span: 0,
-  S_waste: 0,
-  S: 0,
-};
+  /** Per-term weights; missing terms use the preset's weight, then their `defaultWeight`. */
+  weights?: Partial<Record<string, number>>;
+  preset?: CostWeightPreset;
+  /** Terms to evaluate; defaults to {@link DEFAULT_COST_TERMS}. */
+  registry?: CostTermRegistry;
+}
 
 function sum(values: readonly number[]): number {
   let total = 0;
@@ -64,8 +79,13 @@ function sum(values: readonly number[]): number {
   return total;
 }
 
-function weighted(value: number, weight = 1): number {
-  return value * weight;
+function variance(values: readonly number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const mean = sum(values) / values.length;
+  return sum(values.map((value) => (value - mean) ** 2)) / values.length;
 }
 
 function finiteOrZero(value: number | undefined): number {
@@ -73,10 +93,115 @@ function finiteOrZero(value: number | undefined): number {
 }
 
 /**
- * Computes a full cost decomposition.
+ * Built-in terms: edge length `L`, crossings `X`, bends `B`, flow violations `F_out` and
+ * `F_down` with aggregate `F`, and plate size `S_span` and `S_waste` with aggregate `S`.
+ * Aggregates are weighted on top of their children, so with unit weights each child
+ * counts twice in the total.
+ */
+export const DEFAULT_COST_TERMS: readonly CostTerm[] = [
+  { name: "L", defaultWeight: 1, compute: ({ layout }) => sum((layout.positions ?? []).map((p) => Math.abs(p))) },
+  { name: "X", defaultWeight: 1, compute: ({ routing }) => finiteOrZero(routing.crossings) },
+  { name: "B", defaultWeight: 1, compute: ({ routing }) => finiteOrZero(routing.bends) },
+  {
+    name: "F_out",
+    defaultWeight: 1,
+    parent: "F",
+    compute: ({ routing }) => finiteOrZero(routing.flowOutViolations),
+  },
+  {
+    name: "F_down",
+    defaultWeight: 1,
+    parent: "F",
+    compute: ({ routing }) => finiteOrZero(routing.flowDownViolations),
+  },
+  { name: "F", defaultWeight: 1 },
+  {
+    name: "S_span",
+    defaultWeight: 1,
+    parent: "S",
+    compute: ({ layout, routing }) => sum((layout.spans ?? routing.spans ?? []).map((s) => Math.abs(s))),
+  },
+  { name: "S_waste", defaultWeight: 1, parent: "S", compute: ({ layout }) => finiteOrZero(layout.waste) },
+  { name: "S", defaultWeight: 1 },
+];
+
+/**
+ * Named weight profiles over the built-in terms. Aggregates `F` and `S` are zeroed so each
+ * sub-term counts once. The weights express relative importance, so they are best paired
+ * with normalized costs (see `normalize.ts`), where every term has a comparable scale.
+ */
+export const COST_WEIGHT_PRESETS: Record<CostWeightPreset, Partial<Record<string, number>>> = {
+  compact: { L: 2, X: 1, B: 0.5, F_out: 1, F_down: 1, F: 0, S_span: 2, S_waste: 2, S: 0 },
+  readable: { L: 0.5, X: 4, B: 2, F_out: 2, F_down: 2, F: 0, S_span: 0.5, S_waste: 0.5, S: 0 },
+  publication: { L: 1, X: 3, B: 1, F_out: 2, F_down: 2, F: 0, S_span: 1, S_waste: 1.5, S: 0 },
+};
+
+/**
+ * Explicit weights layered over a preset, or `{}` when neither is given.
+ */
+export function resolveCostWeights(
+  config: Pick<CostConfig, "weights" | "preset">,
+): Partial<Record<string, number>> {
+  const preset =
+    config.preset && Object.hasOwn(COST_WEIGHT_PRESETS, config.preset) ? COST_WEIGHT_PRESETS[config.preset] : undefined;
+  if (!preset) {
+    if (config.preset) {
+      throw new Error(`Unknown cost weight preset "${config.preset}"`);
+    }
+    return config.weights ?? {};
+  }
+
+  return { ...preset, ...config.weights };
+}
+
+/**
+ * Opt-in aesthetic terms: alignment `A_align`, mirror symmetry `A_sym`, edge-length
+ * variance `A_len` (over `edgeLengths`) and parent centring `A_parent`. The geometry
+ * evaluator measures them when they are in its registry; see {@link AESTHETIC_COST_REGISTRY}.
+ */
+export const AESTHETIC_COST_TERMS: readonly CostTerm[] = [
+  { name: "A_align", defaultWeight: 1, compute: ({ layout }) => finiteOrZero(layout.alignment) },
+  { name: "A_sym", defaultWeight: 1, compute: ({ layout }) => finiteOrZero(layout.symmetry) },
+  { name: "A_len", defaultWeight: 1, compute: ({ layout }) => variance(layout.edgeLengths ?? []) },
+  { name: "A_parent", defaultWeight: 1, compute: ({ layout }) => finiteOrZero(layout.parentCentering) },
+];
+
+export function createCostTermRegistry(terms: readonly CostTerm[] = DEFAULT_COST_TERMS): CostTermRegistry {
+  return [...terms].reduce(registerCostTerm, { terms: [] });
+}
+
+/**
+ * Registry with `term` appended; term names must be unique.
+ */
+export function registerCostTerm(registry: CostTermRegistry, term: CostTerm): CostTermRegistry {
+  if (registry.terms.some((existing) => existing.name === term.name)) {
+    throw new Error(`Cost term "${term.name}" is already registered`);
+  }
+
+  return { terms: [...registry.terms, { ...term }] };
+}
+
+export function costTermNames(registry: CostTermRegistry = DEFAULT_REGISTRY): string[] {
+  return registry.terms.map((term) => term.name);
+}
+
+/**
+ * Names of the aggregate terms, i.e. those other terms feed (`F` and `S` for the built-ins).
+ */
+export function aggregateTermNames(registry: CostTermRegistry = DEFAULT_REGISTRY): Set<string> {
+  return new Set(registry.terms.flatMap((term) => (term.parent ? [term.parent] : [])));
+}
+
+const DEFAULT_REGISTRY = createCostTermRegistry();
+
+/** Built-in terms followed by {@link AESTHETIC_COST_TERMS}. */
+export const AESTHETIC_COST_REGISTRY = createCostTermRegistry([...DEFAULT_COST_TERMS, ...AESTHETIC_COST_TERMS]);
+
+/**
+ * Computes a full cost decomposition over the registry's terms.
  *
  * Notes:
- * - Each non-total term is independently weighted.
+ * - Each term is independently weighted, aggregates included.
  * - If both `layout.spans` and `routing.spans` are provided, layout spans are preferred.
  */
 export function computeCost(
@@ -84,60 +209,50 @@ export function computeCost(
   routing: RoutingCostInput,
   config: CostConfig = {},
 ): CostBreakdown {
-  const weights = config.weights ?? {};
-
-  const positions = layout.positions ?? [];
-  const spans = layout.spans ?? routing.spans ?? [];
-
-  const baseL = sum(positions.map((p) => Math.abs(p)));
-  const baseX = finiteOrZero(routing.crossings);
-  const baseB = finiteOrZero(routing.bends);
-  const baseFOut = finiteOrZero(routing.flowOutViolations);
-  const baseFDown = finiteOrZero(routing.flowDownViolations);
-  const baseSSpan = sum(spans.map((s) => Math.abs(s)));
-  const baseSWaste = finiteOrZero(layout.waste);
-
-  const L = weighted(baseL, weights.L);
-  const X = weighted(baseX, weights.X);
-  const B = weighted(baseB, weights.B);
-  const F_out = weighted(baseFOut, weights.F_out);
-  const F_down = weighted(baseFDown, weights.F_down);
-  const F = weighted(baseFOut + baseFDown, weights.F);
-  const S_span = weighted(baseSSpan, weights.S_span);
-  const S_waste = weighted(baseSWaste, weights.S_waste);
-  const S = weighted(baseSSpan + baseSWaste, weights.S);
-
-  const total = L + X + B + F_out + F_down + F + S_span + S_waste + S;
+  const weights = resolveCostWeights(config);
+  const registry = config.registry ?? DEFAULT_REGISTRY;
+  const input: CostInput = { layout, routing };
+  const raw = new Map<string, number>();
 
-  return {
-    total,
-    L,
-    X,
-    B,
-    F_out,
-    F_down,
-    F,
-    S_span,
-    S_waste,
-    S,
+  const rawValue = (term: CostTerm): number => {
+    const cached = raw.get(term.name);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const children = registry.terms.filter((child) => child.parent === term.name);
+    if (!term.compute && children.length === 0) {
+      throw new Error(`Cost term "${term.name}" has no compute function and no child terms`);
+    }
+
+    const value = term.compute ? term.compute(input) : sum(children.map(rawValue));
+    raw.set(term.name, value);
+    return value;
   };
+
+  const components: Record<string, number> = {};
+  let total = 0;
+  for (const term of registry.terms) {
+    const value = rawValue(term) * (weights[term.name] ?? term.defaultWeight);
+    components[term.name] = value;
+    total += value;
+  }
+
+  return { total, components };
 }
 
 export function computeDeltaCost(prev: CostBreakdown, next: CostBreakdown): CostBreakdown {
-  return {
-    total: next.total - prev.total,
-    L: next.L - prev.L,
-    X: next.X - prev.X,
-    B: next.B - prev.B,
-    F_out: next.F_out - prev.F_out,
-    F_down: next.F_down - prev.F_down,
-    F: next.F - prev.F,
-    S_span: next.S_span - prev.S_span,
-    S_waste: next.S_waste - prev.S_waste,
-    S: next.S - prev.S,
-  };
+  const components: Record<string, number> = {};
+  for (const name of new Set([...Object.keys(prev.components), ...Object.keys(next.components)])) {
+    components[name] = (next.components[name] ?? 0) - (prev.components[name] ?? 0);
+  }
+
+  return { total: next.total - prev.total, components };
 }
 
-export function zeroCostBreakdown(): CostBreakdown {
-  return { ...ZERO_COST };
+export function zeroCostBreakdown(registry: CostTermRegistry = DEFAULT_REGISTRY): CostBreakdown {
+  return {
+    total: 0,
+    components: Object.fromEntries(registry.terms.map((term) => [term.name, 0])),
+  };
 }
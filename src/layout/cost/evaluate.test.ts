@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { buildDefaultFixtureConfig, buildDefaultFixtureGraphIR } from "../fixtures/defaultPlateGraph";
+import {
+  buildPlacementModel,
+  decodePlacement,
+  draftRouterInputForPlacement,
+  initialGridPlacement,
+  type PlacementElement,
+  type PlacementModel,
+} from "../placement/grid";
+import { routeDraft } from "../routing/draftRouter";
+import { AESTHETIC_COST_REGISTRY, computeCost } from "./cost";
+import {
+  attributePlacementCost,
+  counterpartPairs,
+  evaluatePlacementCost,
+  measurePlacementAesthetics,
+  measurePlacementGeometry,
+} from "./evaluate";
+
+const sum = (values: readonly number[]) => values.reduce((acc, value) => acc + value, 0);
+
+function defaultFixtureModel(): PlacementModel {
+  return buildPlacementModel(buildDefaultFixtureGraphIR(), {
+    cardinalities: buildDefaultFixtureConfig().cardinalities,
+  });
+}
+
+test("attribution sums match the measured cost terms", () => {
+  const model = defaultFixtureModel();
+  // Reverse the rows of the starting placement so edges point upwards and cross.
+  const start = initialGridPlacement(model);
+  const layout = start.map((value, i) => (i % 2 === 1 ? -value : value));
+  const placement = decodePlacement(model, layout);
+  const routes = routeDraft(draftRouterInputForPlacement(model, placement)).routes;
+
+  const geometry = measurePlacementGeometry(model, placement, routes);
+  const attribution = attributePlacementCost(model, placement, routes);
+
+  assert.ok(geometry.flowDownViolations > 0 && geometry.crossings > 0);
+  assert.deepEqual(attribution.edges.map((edge) => edge.length), geometry.edgeLengths);
+  assert.equal(sum(attribution.edges.map((edge) => edge.bends)), geometry.bends);
+  assert.equal(attribution.crossings.length, geometry.crossings);
+  assert.equal(sum(attribution.edges.map((edge) => edge.crossings)), 2 * geometry.crossings);
+  assert.equal(attribution.edges.filter((edge) => edge.flowDown).length, geometry.flowDownViolations);
+  assert.equal(sum(attribution.edges.map((edge) => edge.flowOutPlates.length)), geometry.flowOutViolations);
+  assert.deepEqual(attribution.plates.map((plate) => plate.span), geometry.plateSpans);
+  assert.equal(sum(attribution.plates.map((plate) => plate.waste)), geometry.plateWaste);
+});
+
+test("counterpartPairs mirrors the r/l subgraphs of the default fixture", () => {
+  const model = defaultFixtureModel();
+
+  assert.deepEqual(
+    counterpartPairs(model).map(([a, b]) => [model.elements[a].id, model.elements[b].id]),
+    [
+      ["r_c", "l_c"],
+      ["r_p", "l_p"],
+      ["r_cp", "l_cp"],
+    ],
+  );
+});
+
+function element(id: string, type: string, dims: string[] = []): PlacementElement {
+  return { id, templateId: id, type, dims, symbol: id, plateKey: "", sizeCells: 1 };
+}
+
+/** Parent `p` over the mirrored children `a` and `b`; `p` shares neither type nor dims with them. */
+const FAMILY: PlacementModel = {
+  level: "template",
+  dims: [{ id: "n" }],
+  elements: [element("p", "observed", ["n"]), element("a", "latent"), element("b", "latent")],
+  edges: [
+    { id: "p->a", source: 0, target: 1, directed: true },
+    { id: "p->b", source: 0, target: 2, directed: true },
+  ],
+  plates: [],
+  platePadding: 1,
+};
+
+const IDEAL = [2, 0, 0, 2, 4, 2];
+
+const aestheticsOf = (layout: readonly number[]) =>
+  measurePlacementAesthetics(FAMILY, decodePlacement(FAMILY, layout));
+
+test("aesthetic terms vanish on an aligned, mirrored, centred layout and grow when perturbed", () => {
+  assert.deepEqual(counterpartPairs(FAMILY), [[1, 2]]);
+  assert.deepEqual(aestheticsOf(IDEAL), { alignment: 0, symmetry: 0, parentCentering: 0 });
+
+  // Lowering `b` breaks the row shared with `a` and the mirror between them.
+  const lowered = [1, 2].map((offset) => aestheticsOf([2, 0, 0, 2, 4, 2 + offset]));
+  assert.deepEqual(lowered, [
+    { alignment: 1, symmetry: 1, parentCentering: 0 },
+    { alignment: 2, symmetry: 2, parentCentering: 0 },
+  ]);
+
+  const shifted = [1, 2].map((offset) => aestheticsOf([2 + offset, 0, 0, 2, 4, 2]));
+  assert.deepEqual(shifted, [
+    { alignment: 0, symmetry: 0, parentCentering: 1 },
+    { alignment: 0, symmetry: 0, parentCentering: 2 },
+  ]);
+});
+
+test("A_len is the variance of edge lengths, not of element positions", () => {
+  const costOf = (layout: readonly number[]) =>
+    evaluatePlacementCost(FAMILY, decodePlacement(FAMILY, layout), [], { registry: AESTHETIC_COST_REGISTRY });
+
+  // Both edges are 4 cells long although the element coordinates differ.
+  assert.equal(costOf(IDEAL).components.A_len, 0);
+  // Moving `b` two cells right makes the edges 4 and 6 long.
+  assert.equal(costOf([2, 0, 0, 2, 6, 2]).components.A_len, 1);
+
+  const direct = computeCost({ positions: [0, 10], edgeLengths: [4, 6] }, {}, { registry: AESTHETIC_COST_REGISTRY });
+  assert.equal(direct.components.A_len, 1);
+});
@@ -0,0 +1,358 @@
+import {
+  draftRouterInputForPlacement,
+  elementCenter,
+  type GridPlacement,
+  type PlacedPlate,
+  type PlacementEdge,
+  type PlacementModel,
+} from "../placement/grid";
+import {
+  evaluateRouteCost,
+  routeDraft,
+  segmentCrossingPairs,
+  segmentCrossings,
+  type DraftRouterInput,
+  type GridRect,
+  type RoutedEdge,
+  type SegmentCrossing,
+} from "../routing/draftRouter";
+import { AESTHETIC_COST_TERMS, computeCost, type CostBreakdown, type CostConfig } from "./cost";
+
+/**
+ * Raw (unweighted) measurements behind each {@link computeCost} term.
+ */
+export interface PlacementGeometry {
+  /** Routed length per model edge (Manhattan centre distance when unrouted). Feeds L. */
+  edgeLengths: number[];
+  /** Feeds X. */
+  crossings: number;
+  /** Feeds B. */
+  bends: number;
+  /** Directed edges whose target sits above their source. Feeds F_down. */
+  flowDownViolations: number;
+  /** (edge, plate) pairs where a directed edge leaves a plate enclosing its source. Feeds F_out. */
+  flowOutViolations: number;
+  /** Width + height per plate. Feeds S_span. */
+  plateSpans: number[];
+  /** Plate area not covered by the elements inside it, summed over plates. Feeds S_waste. */
+  plateWaste: number;
+}
+
+/**
+ * Raw measurements behind the placement-derived aesthetic terms.
+ */
+export interface PlacementAesthetics {
+  /**
+   * Over pairs of elements with the same type or the same dims, the smaller of their
+   * horizontal and vertical centre offsets (0 when they share a row or column).
+   */
+  alignment: number;
+  /**
+   * Over counterpart pairs, the horizontal distance of the pair's midpoint from the
+   * common mirror axis plus their vertical offset.
+   */
+  symmetry: number;
+  /** Over elements with directed children, the offset from the children's mean x. */
+  parentCentering: number;
+}
+
+export interface GeometryCostEvaluatorOptions {
+  router?: Omit<DraftRouterInput, "edges" | "obstacles">;
+  cost?: CostConfig;
+}
+
+function rectInside(inner: GridRect, outer: GridRect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+interface EdgeMeasurement {
+  length: number;
+  bends: number;
+  flowDown: boolean;
+  /** Keys of the plates the edge leaves. */
+  flowOutPlates: string[];
+}
+
+/**
+ * Length, bends and flow violations of one edge; shared by measurement and attribution.
+ */
+function measureEdge(
+  placement: GridPlacement,
+  edge: PlacementEdge,
+  route: RoutedEdge | undefined,
+): EdgeMeasurement {
+  const source = elementCenter(placement, edge.source);
+  const target = elementCenter(placement, edge.target);
+  const routeCost = route && route.points.length >= 2 ? evaluateRouteCost([route]) : undefined;
+  const sourceRect = placement.elements[edge.source].rect;
+  const targetRect = placement.elements[edge.target].rect;
+
+  return {
+    length: routeCost ? routeCost.length : Math.abs(target.x - source.x) + Math.abs(target.y - source.y),
+    bends: routeCost ? routeCost.bends : 0,
+    flowDown: edge.directed && target.y < source.y,
+    flowOutPlates: edge.directed
+      ? placement.plates
+          .filter((plate) => rectInside(sourceRect, plate.rect) && !rectInside(targetRect, plate.rect))
+          .map((plate) => plate.key)
+      : [],
+  };
+}
+
+/** Span and uncovered area of one plate. */
+function measurePlate(placement: GridPlacement, plate: PlacedPlate): PlateAttribution {
+  const covered = placement.elements
+    .filter((element) => rectInside(element.rect, plate.rect))
+    .reduce((acc, element) => acc + element.rect.width * element.rect.height, 0);
+  return {
+    key: plate.key,
+    span: plate.rect.width + plate.rect.height,
+    waste: Math.max(0, plate.rect.width * plate.rect.height - covered),
+  };
+}
+
+/**
+ * Measure every cost term from an actual placement and its routes.
+ */
+export function measurePlacementGeometry(
+  model: PlacementModel,
+  placement: GridPlacement,
+  routes: readonly RoutedEdge[],
+): PlacementGeometry {
+  const routesById = new Map(routes.map((route) => [route.id, route]));
+  const edges = model.edges.map((edge) => measureEdge(placement, edge, routesById.get(edge.id)));
+  const plates = placement.plates.map((plate) => measurePlate(placement, plate));
+
+  return {
+    edgeLengths: edges.map((edge) => edge.length),
+    crossings: segmentCrossings(routes),
+    bends: edges.reduce((acc, edge) => acc + edge.bends, 0),
+    flowDownViolations: edges.filter((edge) => edge.flowDown).length,
+    flowOutViolations: edges.reduce((acc, edge) => acc + edge.flowOutPlates.length, 0),
+    plateSpans: plates.map((plate) => plate.span),
+    plateWaste: plates.reduce((acc, plate) => acc + plate.waste, 0),
+  };
+}
+
+function dimsKey(dims: readonly string[]): string {
+  return [...dims].sort((a, b) => a.localeCompare(b)).join("|");
+}
+
+const SIGNATURE_ROUNDS = 3;
+const counterpartCache = new WeakMap<PlacementModel, [number, number][]>();
+
+/**
+ * Mirror counterparts: elements of different templates with the same type and dims,
+ * different symbols and isomorphic upstream subgraphs, matched by instance order (e.g.
+ * `r_c`/`l_c` in the default fixture). Upstream shape is compared by refining each
+ * template's label with its parents' labels for a few rounds.
+ */
+export function counterpartPairs(model: PlacementModel): [number, number][] {
+  const cached = counterpartCache.get(model);
+  if (cached) {
+    return cached;
+  }
+
+  const templateOf = model.elements.map((element) => element.templateId);
+  const parents = new Map<string, Set<string>>();
+  for (const edge of model.edges) {
+    const target = templateOf[edge.target];
+    parents.set(target, (parents.get(target) ?? new Set()).add(templateOf[edge.source]));
+  }
+
+  let labels = new Map(model.elements.map((element) => [element.templateId, `${element.type}/${dimsKey(element.dims)}`]));
+  for (let round = 0; round < SIGNATURE_ROUNDS; round += 1) {
+    const previous = labels;
+    labels = new Map(
+      [...previous].map(([templateId, label]) => {
+        const upstream = [...(parents.get(templateId) ?? [])].map((parent) => previous.get(parent) ?? "");
+        return [templateId, `${label}(${upstream.sort((a, b) => a.localeCompare(b)).join(",")})`];
+      }),
+    );
+  }
+
+  const ordinals = new Map<string, number>();
+  const ordinal = model.elements.map((element) => {
+    const next = ordinals.get(element.templateId) ?? 0;
+    ordinals.set(element.templateId, next + 1);
+    return next;
+  });
+
+  const pairs: [number, number][] = [];
+  model.elements.forEach((a, i) => {
+    for (let j = i + 1; j < model.elements.length; j += 1) {
+      const b = model.elements[j];
+      if (
+        a.templateId !== b.templateId &&
+        a.symbol !== undefined &&
+        b.symbol !== undefined &&
+        a.symbol !== b.symbol &&
+        ordinal[i] === ordinal[j] &&
+        labels.get(a.templateId) === labels.get(b.templateId)
+      ) {
+        pairs.push([i, j]);
+      }
+    }
+  });
+
+  counterpartCache.set(model, pairs);
+  return pairs;
+}
+
+export function measurePlacementAesthetics(model: PlacementModel, placement: GridPlacement): PlacementAesthetics {
+  const centers = model.elements.map((_, index) => elementCenter(placement, index));
+
+  let alignment = 0;
+  for (let i = 0; i < model.elements.length; i += 1) {
+    for (let j = i + 1; j < model.elements.length; j += 1) {
+      const a = model.elements[i];
+      const b = model.elements[j];
+      if (a.type === b.type || dimsKey(a.dims) === dimsKey(b.dims)) {
+        alignment += Math.min(Math.abs(centers[i].x - centers[j].x), Math.abs(centers[i].y - centers[j].y));
+      }
+    }
+  }
+
+  const pairs = counterpartPairs(model);
+  const midpoints = pairs.map(([a, b]) => (centers[a].x + centers[b].x) / 2);
+  const axis = midpoints.reduce((acc, x) => acc + x, 0) / Math.max(1, midpoints.length);
+  let symmetry = 0;
+  pairs.forEach(([a, b], k) => {
+    symmetry += Math.abs(midpoints[k] - axis) + Math.abs(centers[a].y - centers[b].y);
+  });
+
+  const children = new Map<number, number[]>();
+  for (const edge of model.edges) {
+    if (edge.directed) {
+      children.set(edge.source, [...(children.get(edge.source) ?? []), edge.target]);
+    }
+  }
+  let parentCentering = 0;
+  for (const [parent, targets] of children) {
+    const meanX = targets.reduce((acc, target) => acc + centers[target].x, 0) / targets.length;
+    parentCentering += Math.abs(centers[parent].x - meanX);
+  }
+
+  return { alignment, symmetry, parentCentering };
+}
+
+const PLACEMENT_AESTHETIC_TERMS = new Set(
+  AESTHETIC_COST_TERMS.map((term) => term.name).filter((name) => name !== "A_len"),
+);
+
+/**
+ * Full cost decomposition for a placement, with every term derived from geometry.
+ * Aesthetic measurements are only taken when the registry includes their terms.
+ */
+export function evaluatePlacementCost(
+  model: PlacementModel,
+  placement: GridPlacement,
+  routes: readonly RoutedEdge[],
+  config: CostConfig = {},
+): CostBreakdown {
+  const geometry = measurePlacementGeometry(model, placement, routes);
+  const aesthetics = config.registry?.terms.some((term) => PLACEMENT_AESTHETIC_TERMS.has(term.name))
+    ? measurePlacementAesthetics(model, placement)
+    : {};
+
+  return computeCost(
+    {
+      positions: geometry.edgeLengths,
+      edgeLengths: geometry.edgeLengths,
+      spans: geometry.plateSpans,
+      waste: geometry.plateWaste,
+      ...aesthetics,
+    },
+    {
+      crossings: geometry.crossings,
+      bends: geometry.bends,
+      flowOutViolations: geometry.flowOutViolations,
+      flowDownViolations: geometry.flowDownViolations,
+    },
+    config,
+  );
+}
+
+export interface EdgeAttribution {
+  id: string;
+  source: string;
+  target: string;
+  /** Share of L. */
+  length: number;
+  /** Share of B. */
+  bends: number;
+  /** Crossings this edge takes part in; each crossing in X counts once for both edges. */
+  crossings: number;
+  /** Counts once towards F_down. */
+  flowDown: boolean;
+  /** Plates the edge leaves; each counts once towards F_out. */
+  flowOutPlates: string[];
+}
+
+export interface PlateAttribution {
+  key: string;
+  /** Share of S_span. */
+  span: number;
+  /** Share of S_waste. */
+  waste: number;
+}
+
+/**
+ * Raw cost terms split across the elements that cause them, so a bad score can be traced
+ * to specific edges and plates. Sums match {@link measurePlacementGeometry}.
+ */
+export interface PlacementCostAttribution {
+  edges: EdgeAttribution[];
+  /** One entry per crossing counted in X. */
+  crossings: SegmentCrossing[];
+  plates: PlateAttribution[];
+}
+
+export function attributePlacementCost(
+  model: PlacementModel,
+  placement: GridPlacement,
+  routes: readonly RoutedEdge[],
+): PlacementCostAttribution {
+  const routesById = new Map(routes.map((route) => [route.id, route]));
+  const crossings = segmentCrossingPairs(routes);
+
+  const edges = model.edges.map((edge): EdgeAttribution => {
+    const { length, bends, flowDown, flowOutPlates } = measureEdge(placement, edge, routesById.get(edge.id));
+    return {
+      id: edge.id,
+      source: model.elements[edge.source].id,
+      target: model.elements[edge.target].id,
+      length,
+      bends,
+      crossings: crossings.filter((crossing) => crossing.edgeIds.includes(edge.id)).length,
+      flowDown,
+      flowOutPlates,
+    };
+  });
+  const plates = placement.plates.map((plate) => measurePlate(placement, plate));
+
+  return { edges, crossings, plates };
+}
+
+export function costAttributionToJson(attribution: PlacementCostAttribution): string {
+  return JSON.stringify(attribution);
+}
+
+/**
+ * Placement scorer for `buildPlacementAnnealProblem`: draft-routes the placement, then
+ * evaluates the geometry-backed cost.
+ */
+export function createGeometryCostEvaluator(
+  model: PlacementModel,
+  options: GeometryCostEvaluatorOptions = {},
+): (placement: GridPlacement) => CostBreakdown {
+  return (placement) => {
+    const routed = routeDraft(draftRouterInputForPlacement(model, placement, options.router));
+    return evaluatePlacementCost(model, placement, routed.routes, options.cost);
+  };
+}
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { initializeAnneal, runAnneal } from "../anneal/engine";
+import {
+  initialNormalizationState,
+  normalizeCost,
+  normalizedTotal,
+  updateNormalization,
+  type CostNormalization,
+} from "./normalize";
+
+const cost = (components: Record<string, number>) => ({ total: 0, components });
+
+test("scale estimates start at the first magnitudes and follow an exponential moving average", () => {
+  const state = initialNormalizationState(cost({ L: -4, X: 0 }));
+  assert.deepEqual(state, { scales: { L: 4, X: 0 }, samples: 1 });
+
+  const next = updateNormalization({ decay: 0.5 }, state, cost({ L: 8, X: -2, B: 3 }));
+  assert.deepEqual(next, { scales: { L: 6, X: 1, B: 3 }, samples: 2 });
+  assert.deepEqual(state.scales, { L: 4, X: 0 });
+  assert.deepEqual(updateNormalization({}, next, cost({ L: 26 })).scales.L, 7);
+});
+
+test("normalizeCost weighs rescaled components and leaves aggregates to their children", () => {
+  const state = { scales: { L: 10, X: 2, F_out: 0, F_down: 4, F: 4 }, samples: 3 };
+  const scored = cost({ L: 20, X: 3, F_out: 1, F_down: 2, F: 3 });
+
+  // L: 20/10, X: 2 * 3/2, F_out at unit scale, F_down: 2/4; F is left out.
+  assert.deepEqual(normalizeCost({ weights: { X: 2 } }, state, scored), { total: 6.5, components: scored.components });
+  assert.equal(normalizedTotal({ weights: { X: 2, F: 4 } }, state, scored), 9.5);
+  // The preset zeroes the aggregates itself: L 0.5, X 4, B 2, F_out 2, F_down 2.
+  assert.equal(normalizedTotal({ preset: "readable" }, state, scored), 0.5 * 2 + 4 * 1.5 + 2 * 1 + 2 * 0.5);
+});
+
+test("rescaling keeps the best snapshot on the current scale estimates", () => {
+  const normalization: CostNormalization = { decay: 0.2 };
+  const state = runAnneal(
+    initializeAnneal(
+      {
+        initialLayout: [9, -4, 7, 12, -8, 3],
+        evaluateCost: (layout) => {
+          const displacement = layout.reduce((acc, value, i) => acc + Math.abs(value - i), 0);
+          const spread = Math.max(...layout) - Math.min(...layout);
+          return { total: displacement + spread, components: { displacement, spread } };
+        },
+        normalization,
+      },
+      3,
+    ),
+    200,
+    (_, current) => {
+      assert.deepEqual(current.best.normalization, current.normalization);
+      assert.equal(
+        current.best.costBreakdown.total,
+        normalizedTotal(normalization, current.normalization ?? { scales: {}, samples: 0 }, current.best.costBreakdown),
+      );
+    },
+  );
+
+  assert.ok(state.best.costBreakdown.total <= state.costBreakdown.total);
+});
@@ -0,0 +1,89 @@
+import {
+  aggregateTermNames,
+  resolveCostWeights,
+  type CostBreakdown,
+  type CostTermRegistry,
+  type CostWeightPreset,
+} from "./cost";
+
+/**
+ * Online normalization: each component is divided by a running estimate of its typical
+ * magnitude before weighting, so a weight of 2 makes a term twice as important whatever
+ * its units. Scales cancel any weights already applied by the scorer, so set importance
+ * here rather than in `CostConfig`.
+ */
+export interface CostNormalization {
+  /**
+   * Importance per term after rescaling; missing terms use the preset, then 1 (0 for
+   * aggregates such as `F` and `S`, whose children already count).
+   */
+  weights?: Partial<Record<string, number>>;
+  preset?: CostWeightPreset;
+  /** Registry the components come from, for its aggregates (default: the built-in terms). */
+  registry?: CostTermRegistry;
+  /** Exponential moving-average rate for the scale estimates (default 0.05). */
+  decay?: number;
+}
+
+export interface CostNormalizationState {
+  /** Running mean of each component's absolute value. */
+  scales: Record<string, number>;
+  samples: number;
+}
+
+const DEFAULT_DECAY = 0.05;
+
+export function initialNormalizationState(cost: CostBreakdown): CostNormalizationState {
+  return {
+    scales: Object.fromEntries(Object.entries(cost.components).map(([name, value]) => [name, Math.abs(value)])),
+    samples: 1,
+  };
+}
+
+/**
+ * Folds one scored layout into the scale estimates.
+ */
+export function updateNormalization(
+  config: CostNormalization,
+  state: CostNormalizationState,
+  cost: CostBreakdown,
+): CostNormalizationState {
+  const decay = Math.min(1, Math.max(0, config.decay ?? DEFAULT_DECAY));
+  const scales = { ...state.scales };
+  for (const [name, value] of Object.entries(cost.components)) {
+    const previous = scales[name];
+    scales[name] = previous === undefined ? Math.abs(value) : previous + decay * (Math.abs(value) - previous);
+  }
+
+  return { scales, samples: state.samples + 1 };
+}
+
+/**
+ * Weighted sum of the rescaled components. Terms whose scale is still 0 count at unit scale.
+ */
+export function normalizedTotal(
+  config: CostNormalization,
+  state: CostNormalizationState,
+  cost: CostBreakdown,
+): number {
+  const weights = resolveCostWeights(config);
+  const aggregates = aggregateTermNames(config.registry);
+  let total = 0;
+  for (const [name, value] of Object.entries(cost.components)) {
+    const scale = state.scales[name];
+    total += ((weights[name] ?? (aggregates.has(name) ? 0 : 1)) * value) / (scale > 0 ? scale : 1);
+  }
+
+  return total;
+}
+
+/**
+ * `cost` with its total replaced by the normalized total; components stay as scored.
+ */
+export function normalizeCost(
+  config: CostNormalization,
+  state: CostNormalizationState,
+  cost: CostBreakdown,
+): CostBreakdown {
+  return { total: normalizedTotal(config, state, cost), components: cost.components };
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createRng, nextRng, type AnnealRngState } from "../anneal/rng";
+import type { CostBreakdown } from "./cost";
+import { fitPreferenceWeights, preferenceAgreement, type LayoutPreference } from "./preferences";
+
+function breakdown(components: Record<string, number>): CostBreakdown {
+  return { total: Object.values(components).reduce((acc, value) => acc + value, 0), components };
+}
+
+/** Random `L`/`X` candidate pairs judged by `L + 3 X`. */
+function syntheticPreferences(count: number, seed: number): LayoutPreference[] {
+  let rngState: AnnealRngState = createRng(seed);
+  const draw = () => {
+    let value;
+    [value, rngState] = nextRng(rngState);
+    return value * 10;
+  };
+
+  return Array.from({ length: count }, () => {
+    const a = breakdown({ L: draw(), X: draw() });
+    const b = breakdown({ L: draw(), X: draw() });
+    const score = (candidate: CostBreakdown) => candidate.components.L + 3 * candidate.components.X;
+    return score(a) <= score(b) ? { preferred: a, other: b } : { preferred: b, other: a };
+  });
+}
+
+test("fitPreferenceWeights recovers the weight ratio behind the preferences", () => {
+  const fit = fitPreferenceWeights(syntheticPreferences(200, 5), { l2: 0, iterations: 2000 });
+
+  assert.ok(Math.abs(fit.weights.X / fit.weights.L - 3) < 0.5, JSON.stringify(fit.weights));
+  assert.ok(fit.trainAgreement > 0.95);
+  assert.ok((fit.heldOutAgreement ?? 0) > 0.9);
+});
+
+test("fitPreferenceWeights holds out a seeded share of the preferences", () => {
+  const preferences = syntheticPreferences(20, 9);
+  const fit = fitPreferenceWeights(preferences, { heldOutFraction: 0.25, seed: 4 });
+
+  assert.deepEqual([fit.trainCount, fit.heldOutCount], [15, 5]);
+  assert.deepEqual(fitPreferenceWeights(preferences, { heldOutFraction: 0.25, seed: 4 }), fit);
+  assert.equal(fitPreferenceWeights(preferences, { heldOutFraction: 0 }).heldOutAgreement, undefined);
+});
+
+test("fitPreferenceWeights leaves aggregates out of the fit by default", () => {
+  const preferences = [
+    {
+      preferred: breakdown({ F_out: 1, F_down: 0, F: 1 }),
+      other: breakdown({ F_out: 0, F_down: 3, F: 3 }),
+    },
+    {
+      preferred: breakdown({ F_out: 0, F_down: 1, F: 1 }),
+      other: breakdown({ F_out: 2, F_down: 1, F: 3 }),
+    },
+  ];
+  const fit = fitPreferenceWeights(preferences, { heldOutFraction: 0 });
+
+  assert.deepEqual(Object.keys(fit.weights), ["F_out", "F_down", "F"]);
+  assert.equal(fit.weights.F, 0);
+  assert.ok(fit.weights.F_out > 0 && fit.weights.F_down > 0);
+  assert.ok(fitPreferenceWeights(preferences, { terms: ["F"], heldOutFraction: 0 }).weights.F > 0);
+});
+
+test("preferenceAgreement counts ties as half", () => {
+  const tie = { preferred: breakdown({ L: 2, X: 1 }), other: breakdown({ L: 1, X: 2 }) };
+  const agreed = { preferred: breakdown({ L: 1, X: 1 }), other: breakdown({ L: 2, X: 1 }) };
+
+  assert.equal(preferenceAgreement({ L: 1, X: 1 }, [tie]), 0.5);
+  assert.equal(preferenceAgreement({ L: 1, X: 1 }, [tie, agreed]), 0.75);
+  assert.equal(preferenceAgreement({ L: 1 }, [tie]), 0);
+});
+
+test("fitPreferenceWeights rejects an empty training set", () => {
+  assert.throws(() => fitPreferenceWeights([], { terms: ["L"] }), /Need at least one training preference/);
+  assert.throws(() => fitPreferenceWeights([]), /No cost terms to fit/);
+});
@@ -0,0 +1,176 @@
+import { createRng, randInt, type AnnealRngState } from "../anneal/rng";
+import { aggregateTermNames, type CostBreakdown, type CostTermRegistry } from "./cost";
+
+/**
+ * "`preferred` looks better than `other`", judged on two scored layouts. Fitting reads
+ * the components, so score candidates with unit weights.
+ */
+export interface LayoutPreference {
+  preferred: CostBreakdown;
+  other: CostBreakdown;
+  preferredLayout?: number[];
+  otherLayout?: number[];
+}
+
+export interface PreferenceFitOptions {
+  /**
+   * Terms to fit; defaults to every component seen except the aggregates of `registry`,
+   * which would duplicate their children.
+   */
+  terms?: string[];
+  /** Registry the components come from (default: the built-in terms). */
+  registry?: CostTermRegistry;
+  /** L2 penalty on the standardized weights (default 0.01). */
+  l2?: number;
+  /** Gradient steps (default 500). */
+  iterations?: number;
+  learningRate?: number;
+  /** Share of preferences held out to measure agreement (default 0.25). */
+  heldOutFraction?: number;
+  /** Seed for the train / held-out split. */
+  seed?: number;
+}
+
+export interface PreferenceFit {
+  /**
+   * Non-negative weights for `CostConfig.weights`, scaled so the fitted terms average 1.
+   * Aggregates left out by default get 0, so their children count once.
+   */
+  weights: Record<string, number>;
+  trainCount: number;
+  heldOutCount: number;
+  /** Share of preferences whose preferred layout scores lower under `weights`. */
+  trainAgreement: number;
+  /** Agreement on the held-out preferences; `undefined` when none were held out. */
+  heldOutAgreement?: number;
+  /** Mean logistic loss on the training preferences. */
+  loss: number;
+}
+
+const DEFAULT_L2 = 0.01;
+const DEFAULT_ITERATIONS = 500;
+const DEFAULT_LEARNING_RATE = 0.5;
+const DEFAULT_HELD_OUT_FRACTION = 0.25;
+
+function preferenceTerms(preferences: readonly LayoutPreference[]): string[] {
+  const terms = new Set<string>();
+  for (const preference of preferences) {
+    Object.keys(preference.preferred.components).forEach((term) => terms.add(term));
+    Object.keys(preference.other.components).forEach((term) => terms.add(term));
+  }
+  return [...terms];
+}
+
+/** How much more each term costs the rejected layout than the preferred one. */
+function termAdvantages(preference: LayoutPreference, terms: readonly string[]): number[] {
+  return terms.map(
+    (term) => (preference.other.components[term] ?? 0) - (preference.preferred.components[term] ?? 0),
+  );
+}
+
+function sigmoid(x: number): number {
+  return x >= 0 ? 1 / (1 + Math.exp(-x)) : Math.exp(x) / (1 + Math.exp(x));
+}
+
+function shuffled<T>(items: readonly T[], rngState: AnnealRngState): T[] {
+  const out = [...items];
+  let state = rngState;
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    let j;
+    [j, state] = randInt(i + 1, state);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Share of preferences whose preferred layout has the lower weighted total under
+ * `weights` (missing terms weigh 0); ties count half.
+ */
+export function preferenceAgreement(
+  weights: Readonly<Record<string, number>>,
+  preferences: readonly LayoutPreference[],
+): number {
+  if (preferences.length === 0) {
+    return 0;
+  }
+
+  const terms = Object.keys(weights);
+  let agreed = 0;
+  for (const preference of preferences) {
+    const margin = termAdvantages(preference, terms).reduce((acc, d, k) => acc + weights[terms[k]] * d, 0);
+    agreed += margin > 0 ? 1 : margin === 0 ? 0.5 : 0;
+  }
+  return agreed / preferences.length;
+}
+
+/**
+ * Fits cost weights to pairwise preferences with a logistic (Bradley-Terry) model:
+ * P(preferred) = sigmoid(sum_t w_t * (other_t - preferred_t)). Term differences are
+ * standardized, the weights are kept non-negative, and the model is solved by projected
+ * gradient descent, so the fit is deterministic for a given seed.
+ */
+export function fitPreferenceWeights(
+  preferences: readonly LayoutPreference[],
+  options: PreferenceFitOptions = {},
+): PreferenceFit {
+  const aggregates = aggregateTermNames(options.registry);
+  const seen = preferenceTerms(preferences);
+  const terms = options.terms ?? seen.filter((term) => !aggregates.has(term));
+  if (terms.length === 0) {
+    throw new Error("No cost terms to fit");
+  }
+
+  const heldOutFraction = Math.min(1, Math.max(0, options.heldOutFraction ?? DEFAULT_HELD_OUT_FRACTION));
+  const split = shuffled(preferences, createRng(options.seed ?? 1));
+  const heldOutCount = split.length < 2 ? 0 : Math.min(split.length - 1, Math.round(split.length * heldOutFraction));
+  const heldOut = split.slice(0, heldOutCount);
+  const train = split.slice(heldOutCount);
+  if (train.length === 0) {
+    throw new Error("Need at least one training preference");
+  }
+
+  const rows = train.map((preference) => termAdvantages(preference, terms));
+  const scales = terms.map((_, k) => {
+    const rms = Math.sqrt(rows.reduce((acc, row) => acc + row[k] ** 2, 0) / rows.length);
+    return rms > 0 ? rms : 1;
+  });
+  const features = rows.map((row) => row.map((d, k) => d / scales[k]));
+
+  const l2 = options.l2 ?? DEFAULT_L2;
+  const learningRate = options.learningRate ?? DEFAULT_LEARNING_RATE;
+  let v = new Array<number>(terms.length).fill(1);
+  const lossOf = (weights: readonly number[]): number =>
+    features.reduce((acc, x) => {
+      const margin = x.reduce((sum, value, k) => sum + weights[k] * value, 0);
+      return acc - Math.log(Math.max(sigmoid(margin), Number.MIN_VALUE));
+    }, 0) / features.length;
+
+  for (let iteration = 0; iteration < (options.iterations ?? DEFAULT_ITERATIONS); iteration += 1) {
+    const gradient = v.map((weight) => l2 * weight);
+    for (const x of features) {
+      const margin = x.reduce((sum, value, k) => sum + v[k] * value, 0);
+      const residual = sigmoid(margin) - 1;
+      x.forEach((value, k) => {
+        gradient[k] += (residual * value) / features.length;
+      });
+    }
+    v = v.map((weight, k) => Math.max(0, weight - learningRate * gradient[k]));
+  }
+
+  const raw = v.map((weight, k) => weight / scales[k]);
+  const mean = raw.reduce((acc, weight) => acc + weight, 0) / raw.length;
+  const weights = Object.fromEntries([
+    ...terms.map((term, k) => [term, mean > 0 ? raw[k] / mean : 0]),
+    ...(options.terms ? [] : seen.filter((term) => aggregates.has(term)).map((term) => [term, 0])),
+  ]);
+
+  return {
+    weights,
+    trainCount: train.length,
+    heldOutCount,
+    trainAgreement: preferenceAgreement(weights, train),
+    ...(heldOut.length > 0 ? { heldOutAgreement: preferenceAgreement(weights, heldOut) } : {}),
+    loss: lossOf(v),
+  };
+}
@@ -1,23 +1,17 @@
 import type { CostBreakdown } from "../cost/cost";
 
-const COST_TERMS: (keyof CostBreakdown)[] = [
-  "total",
-  "L",
-  "X",
-  "B",
-  "F_out",
-  "F_down",
-  "F",
-  "S_span",
-  "S_waste",
-  "S",
-];
-
-export interface HistoryPoint extends CostBreakdown {
+const POINT_FIELDS = ["iter", "temp", "accepted", "moveType"] as const;
+
+/**
+ * One step of a run. Cost components are stored flat next to `total`, one key per term.
+ */
+export interface HistoryPoint {
   iter: number;
   temp: number;
   accepted: boolean;
   moveType: string;
+  total: number;
+  [term: string]: number | boolean | string;
 }
 
 export interface AcceptancePoint {
@@ -27,7 +21,7 @@ export interface AcceptancePoint {
 }
 
 export interface TermTrendSummary {
-  term: keyof CostBreakdown;
+  term: string;
   start: number;
   end: number;
   min: number;
@@ -63,7 +57,8 @@ export function appendHistoryPoint(
       temp: input.temp,
       accepted: input.accepted,
       moveType: input.moveType,
-      ...input.cost,
+      total: input.cost.total,
+      ...input.cost.components,
     },
   ];
 }
@@ -90,8 +85,29 @@ export function rollingAcceptanceRatio(
   return out;
 }
 
+/**
+ * `total` followed by every cost term seen in `history`, in first-seen order.
+ */
+export function historyCostTerms(history: readonly HistoryPoint[]): string[] {
+  const terms = new Set<string>(["total"]);
+  for (const point of history) {
+    for (const key of Object.keys(point)) {
+      if (!(POINT_FIELDS as readonly string[]).includes(key)) {
+        terms.add(key);
+      }
+    }
+  }
+
+  return [...terms];
+}
+
+function termValue(point: HistoryPoint, term: string): number {
+  const value = point[term];
+  return typeof value === "number" ? value : 0;
+}
+
 function summarizeTerm(
-  term: keyof CostBreakdown,
+  term: string,
   history: readonly HistoryPoint[],
   startIndex: number,
 ): TermTrendSummary {
@@ -110,15 +126,15 @@ function summarizeTerm(
   }
 
   const window = history.slice(startIndex);
-  const first = window[0][term];
-  const last = window[window.length - 1][term];
+  const first = termValue(window[0], term);
+  const last = termValue(window[window.length - 1], term);
 
   let min = Number.POSITIVE_INFINITY;
   let max = Number.NEGATIVE_INFINITY;
   let total = 0;
 
   for (const point of window) {
-    const value = point[term];
+    const value = termValue(point, term);
     min = Math.min(min, value);
     max = Math.max(max, value);
     total += value;
@@ -153,7 +169,7 @@ export function summarizeCostTrends(
   return {
     windowSize: safeWindow,
     points: Math.max(0, history.length - startIndex),
-    terms: COST_TERMS.map((term) => summarizeTerm(term, history, startIndex)),
+    terms: historyCostTerms(history).map((term) => summarizeTerm(term, history, startIndex)),
   };
 }
 
@@ -170,11 +186,11 @@ function csvEscape(value: string): string {
 }
 
 export function historyToCsv(history: readonly HistoryPoint[]): string {
-  const headers: (keyof HistoryPoint)[] = ["iter", "temp", "accepted", "moveType", ...COST_TERMS];
+  const headers = [...POINT_FIELDS, ...historyCostTerms(history)];
   const lines = [headers.join(",")];
 
   for (const point of history) {
-    const row = headers.map((header) => csvEscape(String(point[header])));
+    const row = headers.map((header) => csvEscape(String(point[header] ?? "")));
     lines.push(row.join(","));
   }
 
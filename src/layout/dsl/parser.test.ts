@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { DslParseError, parsePlateDsl } from "./parser";
+
+test("parsePlateDsl reads dims, node declarations and edge chains", () => {
+  const result = parsePlateDsl(`
+    dim c "Condition" = 2   # conditions
+    dim p = 3
+    source alpha, beta
+    observed B[c,p] ~ Normal
+    latent r[c] as rate
+    alpha -> r[c] <- beta   // chain
+    r[c] -> B[c,p]
+  `);
+
+  assert.deepEqual(result.dims, [{ id: "c", label: "Condition" }, { id: "p" }]);
+  assert.deepEqual(result.cardinalities, { c: 2, p: 3 });
+  assert.deepEqual(result.nodes, [
+    { id: "alpha", type: "source", dims: [] },
+    { id: "beta", type: "source", dims: [] },
+    { id: "B_cp", type: "observed", dims: ["c", "p"], symbol: "B", distribution: { family: "Normal" } },
+    { id: "rate", type: "latent", dims: ["c"], symbol: "r" },
+  ]);
+  assert.deepEqual(result.edges, [
+    { sourceTemplateId: "alpha", targetTemplateId: "rate" },
+    { sourceTemplateId: "beta", targetTemplateId: "rate" },
+    { sourceTemplateId: "rate", targetTemplateId: "B_cp" },
+  ]);
+});
+
+test("parsePlateDsl creates implicit latent nodes and keeps reductions per edge", () => {
+  const result = parsePlateDsl("B[c,p,t] -> V[c,t] -- W reduce p, t");
+
+  assert.deepEqual(result.nodes, [
+    { id: "B_cpt", type: "latent", dims: ["c", "p", "t"], symbol: "B" },
+    { id: "V_ct", type: "latent", dims: ["c", "t"], symbol: "V" },
+    { id: "W", type: "latent", dims: [] },
+  ]);
+  assert.deepEqual(result.edges, [
+    { sourceTemplateId: "B_cpt", targetTemplateId: "V_ct", reducedDims: ["p"] },
+    { sourceTemplateId: "V_ct", targetTemplateId: "W", directed: false, reducedDims: ["t"] },
+  ]);
+});
+
+test("parsePlateDsl resolves edges to nodes declared after first use", () => {
+  const result = parsePlateDsl("mu -> y[n]\nobserved y[n] as obs");
+
+  assert.deepEqual(result.edges, [{ sourceTemplateId: "mu", targetTemplateId: "obs" }]);
+  assert.deepEqual(
+    result.nodes.map((node) => node.id),
+    ["obs", "mu"],
+  );
+});
+
+test("parsePlateDsl reports syntax errors with their position", () => {
+  assert.throws(
+    () => parsePlateDsl("dim c\nalpha beta["),
+    (error: unknown) =>
+      error instanceof DslParseError &&
+      error.line === 2 &&
+      error.column === 12 &&
+      /Expected dim id but found end of line/.test(error.message),
+  );
+  assert.throws(() => parsePlateDsl("alpha"), /Expected '->', '<-' or '--' but found end of line \(line 1, column 6\)/);
+  assert.throws(() => parsePlateDsl('dim c "open'), /Unterminated string \(line 1, column 7\)/);
+});
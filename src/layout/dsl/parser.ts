@@ -0,0 +1,412 @@
+import type { DimDecl, EdgeTemplate, NodeTemplate } from "../ir";
+
+/**
+ * Plate-model DSL, one statement per line (`#` and `//` start comments):
+ *
+ *   dim c "Condition" = 2          # dim id, optional label, optional cardinality
+ *   source alpha, beta             # <type> <ref>[, <ref>...]
+ *   observed B[c,p,t] ~ Normal     # optional distribution family
+ *   latent r[c,p] as r_cp          # optional explicit id
+ *   alpha -> r[c,p] <- beta        # edge chains with ->, <- and -- (undirected)
+ *   B[c,p,t] -> V[c,t] reduce p    # dims aggregated away by the chain's edges
+ *
+ * A ref `name[d1,d2]` without an explicit id gets the id `name_d1d2` (`name` when it has no
+ * dims). Refs used in edges but never declared become `latent` nodes.
+ */
+
+export interface DslParseResult {
+  dims: DimDecl[];
+  nodes: NodeTemplate[];
+  edges: EdgeTemplate[];
+  /** Cardinalities given as `dim c = 2`. */
+  cardinalities: Record<string, number>;
+}
+
+export class DslParseError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = "DslParseError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type TokenKind = "ident" | "number" | "string" | "punct" | "arrow" | "newline" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  line: number;
+  column: number;
+}
+
+interface NodeRef {
+  name: string;
+  dims: string[];
+  token: Token;
+}
+
+const IMPLICIT_NODE_TYPE = "latent";
+const ARROWS = ["->", "<-", "--"];
+
+function isIdentStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch);
+}
+
+function isIdentPart(ch: string): boolean {
+  return /[A-Za-z0-9_]/.test(ch);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const lines = source.split(/\r?\n/);
+
+  lines.forEach((text, lineIndex) => {
+    const line = lineIndex + 1;
+    let i = 0;
+
+    while (i < text.length) {
+      const ch = text[i];
+      const column = i + 1;
+
+      if (ch === " " || ch === "\t") {
+        i += 1;
+        continue;
+      }
+
+      if (ch === "#" || text.startsWith("//", i)) {
+        break;
+      }
+
+      const arrow = ARROWS.find((candidate) => text.startsWith(candidate, i));
+      if (arrow) {
+        tokens.push({ kind: "arrow", value: arrow, line, column });
+        i += arrow.length;
+        continue;
+      }
+
+      if (isIdentStart(ch)) {
+        let end = i + 1;
+        while (end < text.length && isIdentPart(text[end])) {
+          end += 1;
+        }
+        tokens.push({ kind: "ident", value: text.slice(i, end), line, column });
+        i = end;
+        continue;
+      }
+
+      if (/[0-9]/.test(ch)) {
+        let end = i + 1;
+        while (end < text.length && /[0-9]/.test(text[end])) {
+          end += 1;
+        }
+        tokens.push({ kind: "number", value: text.slice(i, end), line, column });
+        i = end;
+        continue;
+      }
+
+      if (ch === '"') {
+        const end = text.indexOf('"', i + 1);
+        if (end === -1) {
+          throw new DslParseError("Unterminated string", line, column);
+        }
+        tokens.push({ kind: "string", value: text.slice(i + 1, end), line, column });
+        i = end + 1;
+        continue;
+      }
+
+      if ("[],=~".includes(ch)) {
+        tokens.push({ kind: "punct", value: ch, line, column });
+        i += 1;
+        continue;
+      }
+
+      throw new DslParseError(`Unexpected character '${ch}'`, line, column);
+    }
+
+    tokens.push({ kind: "newline", value: "\n", line, column: text.length + 1 });
+  });
+
+  const last = tokens[tokens.length - 1];
+  tokens.push({ kind: "eof", value: "", line: last?.line ?? 1, column: last?.column ?? 1 });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  if (token.kind === "newline") {
+    return "end of line";
+  }
+
+  if (token.kind === "eof") {
+    return "end of input";
+  }
+
+  return `'${token.value}'`;
+}
+
+export function refId(name: string, dims: readonly string[]): string {
+  return dims.length === 0 ? name : `${name}_${dims.join("")}`;
+}
+
+class Parser {
+  private index = 0;
+
+  readonly dims: DimDecl[] = [];
+  readonly nodes: NodeTemplate[] = [];
+  readonly edges: EdgeTemplate[] = [];
+  readonly cardinalities: Record<string, number> = {};
+
+  private readonly pendingEdges: {
+    source: NodeRef;
+    target: NodeRef;
+    directed: boolean;
+    reducedDims: string[];
+  }[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): DslParseResult {
+    while (this.peek().kind !== "eof") {
+      if (this.peek().kind === "newline") {
+        this.index += 1;
+        continue;
+      }
+
+      this.parseStatement();
+      this.expectEndOfStatement();
+    }
+
+    this.resolveEdges();
+    return {
+      dims: this.dims,
+      nodes: this.nodes,
+      edges: this.edges,
+      cardinalities: this.cardinalities,
+    };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index += 1;
+    return token;
+  }
+
+  private fail(token: Token, expected: string): never {
+    throw new DslParseError(`Expected ${expected} but found ${describe(token)}`, token.line, token.column);
+  }
+
+  private expectIdent(expected = "identifier"): Token {
+    const token = this.next();
+    if (token.kind !== "ident") {
+      this.fail(token, expected);
+    }
+    return token;
+  }
+
+  private acceptPunct(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === "punct" && token.value === value) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === "ident" && token.value === value) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectEndOfStatement(): void {
+    const token = this.peek();
+    if (token.kind !== "newline" && token.kind !== "eof") {
+      this.fail(token, "end of line");
+    }
+  }
+
+  private parseStatement(): void {
+    const first = this.peek();
+    if (first.kind !== "ident") {
+      this.fail(first, "a dim, node or edge statement");
+    }
+
+    if (first.value === "dim" && this.peek(1).kind === "ident") {
+      this.index += 1;
+      this.parseDim();
+      return;
+    }
+
+    if (this.peek(1).kind === "ident") {
+      this.parseNodeDecl();
+      return;
+    }
+
+    this.parseEdgeChain();
+  }
+
+  private parseDim(): void {
+    const id = this.expectIdent("dim id").value;
+    const decl: DimDecl = { id };
+
+    if (this.peek().kind === "string") {
+      decl.label = this.next().value;
+    }
+
+    if (this.acceptPunct("=")) {
+      const token = this.next();
+      if (token.kind !== "number") {
+        this.fail(token, "cardinality");
+      }
+      this.cardinalities[id] = Number(token.value);
+    }
+
+    this.dims.push(decl);
+  }
+
+  private parseRef(): NodeRef {
+    const token = this.expectIdent("node reference");
+    const dims: string[] = [];
+
+    if (this.acceptPunct("[")) {
+      if (!this.acceptPunct("]")) {
+        do {
+          dims.push(this.expectIdent("dim id").value);
+        } while (this.acceptPunct(","));
+
+        if (!this.acceptPunct("]")) {
+          this.fail(this.peek(), "',' or ']'");
+        }
+      }
+    }
+
+    return { name: token.value, dims, token };
+  }
+
+  private parseNodeDecl(): void {
+    const type = this.expectIdent("node type").value;
+
+    do {
+      const ref = this.parseRef();
+      let id = refId(ref.name, ref.dims);
+      if (this.acceptKeyword("as")) {
+        id = this.expectIdent("node id").value;
+      }
+
+      const node: NodeTemplate = { id, type, dims: ref.dims };
+      if (id !== ref.name) {
+        node.symbol = ref.name;
+      }
+
+      if (this.acceptPunct("~")) {
+        node.distribution = { family: this.expectIdent("distribution family").value };
+      }
+
+      this.nodes.push(node);
+    } while (this.acceptPunct(","));
+  }
+
+  private parseEdgeChain(): void {
+    const refs: NodeRef[] = [this.parseRef()];
+    const arrows: string[] = [];
+
+    while (this.peek().kind === "arrow") {
+      arrows.push(this.next().value);
+      refs.push(this.parseRef());
+    }
+
+    if (arrows.length === 0) {
+      this.fail(this.peek(), "'->', '<-' or '--'");
+    }
+
+    const reducedDims: string[] = [];
+    if (this.acceptKeyword("reduce")) {
+      do {
+        reducedDims.push(this.expectIdent("dim id").value);
+      } while (this.acceptPunct(","));
+    }
+
+    arrows.forEach((arrow, i) => {
+      const [source, target] = arrow === "<-" ? [refs[i + 1], refs[i]] : [refs[i], refs[i + 1]];
+      this.pendingEdges.push({
+        source,
+        target,
+        directed: arrow !== "--",
+        reducedDims: reducedDims.filter(
+          (dim) => source.dims.includes(dim) && !target.dims.includes(dim),
+        ),
+      });
+    });
+  }
+
+  /**
+   * Edges are resolved after all declarations so nodes may be declared after first use.
+   */
+  private resolveEdges(): void {
+    const byId = new Map<string, NodeTemplate>();
+    const byRef = new Map<string, NodeTemplate>();
+
+    for (const node of this.nodes) {
+      if (!byId.has(node.id)) {
+        byId.set(node.id, node);
+      }
+      const refKey = `${node.symbol ?? node.id}[${node.dims.join(",")}]`;
+      if (!byRef.has(refKey)) {
+        byRef.set(refKey, node);
+      }
+    }
+
+    const resolve = (ref: NodeRef): string => {
+      const declared =
+        byRef.get(`${ref.name}[${ref.dims.join(",")}]`) ??
+        (ref.dims.length === 0 ? byId.get(ref.name) : undefined);
+      if (declared) {
+        return declared.id;
+      }
+
+      const id = refId(ref.name, ref.dims);
+      const implicit: NodeTemplate = { id, type: IMPLICIT_NODE_TYPE, dims: [...ref.dims] };
+      if (id !== ref.name) {
+        implicit.symbol = ref.name;
+      }
+
+      this.nodes.push(implicit);
+      byId.set(id, implicit);
+      byRef.set(`${ref.name}[${ref.dims.join(",")}]`, implicit);
+      return id;
+    };
+
+    for (const pending of this.pendingEdges) {
+      const edge: EdgeTemplate = {
+        sourceTemplateId: resolve(pending.source),
+        targetTemplateId: resolve(pending.target),
+      };
+      if (!pending.directed) {
+        edge.directed = false;
+      }
+      if (pending.reducedDims.length > 0) {
+        edge.reducedDims = [...pending.reducedDims];
+      }
+
+      this.edges.push(edge);
+    }
+  }
+}
+
+/**
+ * Parse DSL text into template graph pieces. Throws {@link DslParseError} on syntax errors;
+ * semantic checks (unknown dims, cycles, ...) are left to `validateTemplateGraph`.
+ */
+export function parsePlateDsl(source: string): DslParseResult {
+  return new Parser(tokenize(source)).parse();
+}
@@ -1,4 +1,4 @@
-import { DimDecl, EdgeTemplate, NodeTemplate } from "../ir";
+import { buildGraphIR, cloneEdgeTemplate, DimDecl, EdgeTemplate, GraphIR, NodeTemplate } from "../ir";
 
 export interface DefaultFixtureOverrides {
   cardinalities?: Partial<Record<"c" | "p" | "t", number>>;
@@ -84,7 +84,7 @@ export const DEFAULT_FIXTURE_EDGES: EdgeTemplate[] = [
 
   // l[c,p] -> B[c,p,t] -> V[c,t] <- T[c]
   { sourceTemplateId: "l_cp", targetTemplateId: "B_cpt" },
-  { sourceTemplateId: "B_cpt", targetTemplateId: "V_ct" },
+  { sourceTemplateId: "B_cpt", targetTemplateId: "V_ct", reducedDims: ["p"] },
   { sourceTemplateId: "T_c", targetTemplateId: "V_ct" },
 
   // V[c,t] -> q[c,p,t] <- B[c,p,t]
@@ -115,8 +115,20 @@ export function buildDefaultFixtureConfig(
   return {
     dims: DEFAULT_FIXTURE_DIMS.map((dim) => ({ ...dim })),
     nodes: DEFAULT_FIXTURE_NODES.map((node) => ({ ...node, dims: [...node.dims] })),
-    edges: DEFAULT_FIXTURE_EDGES.map((edge) => ({ ...edge })),
+    edges: DEFAULT_FIXTURE_EDGES.map(cloneEdgeTemplate),
     cardinalities,
     nodeSizeCellsByType,
   };
 }
+
+/**
+ * Default fixture unrolled into a {@link GraphIR} using its cardinalities and node sizes.
+ */
+export function buildDefaultFixtureGraphIR(overrides: DefaultFixtureOverrides = {}): GraphIR {
+  const fixture = buildDefaultFixtureConfig(overrides);
+  return buildGraphIR(
+    { dims: fixture.dims, nodes: fixture.nodes, edges: fixture.edges },
+    fixture.cardinalities,
+    { nodeSizeCellsByType: fixture.nodeSizeCellsByType },
+  );
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { DotParseError, importDot, nodeTypeFromAttributes } from "./dot";
+
+const PYMC_EXAMPLE = `digraph {
+  mu [label="mu\\n~\\nNormal" shape=ellipse]
+  subgraph cluster_group {
+    label="group (3)"
+    theta [label="theta\\n~\\nNormal" shape=ellipse]
+    subgraph "cluster_obs" {
+      label="obs (10)"
+      y [label="y\\n~\\nNormal" shape=ellipse style=filled]
+    }
+  }
+  mu -> theta
+  theta -> y
+}`;
+
+test("importDot turns clusters into dims and nests their members", () => {
+  const { templateGraph, cardinalities, warnings } = importDot(PYMC_EXAMPLE);
+
+  assert.deepEqual(templateGraph.dims, [
+    { id: "group", label: "group" },
+    { id: "obs", label: "obs" },
+  ]);
+  assert.deepEqual(cardinalities, { group: 3, obs: 10 });
+  assert.deepEqual(warnings, []);
+  assert.deepEqual(templateGraph.nodes, [
+    { id: "mu", type: "latent", dims: [], distribution: { family: "Normal" } },
+    { id: "theta", type: "latent", dims: ["group"], distribution: { family: "Normal" } },
+    { id: "y", type: "observed", dims: ["group", "obs"], distribution: { family: "Normal" } },
+  ]);
+  assert.deepEqual(templateGraph.edges, [
+    { sourceTemplateId: "mu", targetTemplateId: "theta" },
+    { sourceTemplateId: "theta", targetTemplateId: "y" },
+  ]);
+});
+
+test("importDot reads product plate labels and warns about missing sizes", () => {
+  const { templateGraph, cardinalities, warnings } = importDot(`graph {
+    subgraph cluster_a { label="obs (3) x time (4)"; b }
+    subgraph cluster_plate { c }
+    b -- c
+  }`);
+
+  assert.deepEqual(
+    templateGraph.nodes.map((node) => [node.id, node.dims]),
+    [
+      ["b", ["obs", "time"]],
+      ["c", ["plate"]],
+    ],
+  );
+  assert.deepEqual(cardinalities, { obs: 3, time: 4 });
+  assert.deepEqual(warnings, ['Dim "plate" has no size in its plate label']);
+  assert.deepEqual(templateGraph.edges, [{ sourceTemplateId: "b", targetTemplateId: "c", directed: false }]);
+});
+
+test("nodeTypeFromAttributes maps Graphviz shapes to node types", () => {
+  assert.equal(nodeTypeFromAttributes({}), "latent");
+  assert.equal(nodeTypeFromAttributes({ style: "filled" }), "observed");
+  assert.equal(nodeTypeFromAttributes({ shape: "box" }), "deterministic");
+  assert.equal(nodeTypeFromAttributes({ shape: "box", style: "rounded, filled" }), "observed");
+  assert.equal(nodeTypeFromAttributes({ shape: "plaintext" }), "source");
+  assert.equal(nodeTypeFromAttributes({ shape: "octagon" }), "auxiliary");
+});
+
+test("importDot reports malformed input with its position", () => {
+  assert.throws(
+    () => importDot("digraph {\n  a -> \n}"),
+    (error: unknown) => error instanceof DotParseError && error.line === 3 && error.column === 1,
+  );
+  assert.throws(() => importDot('digraph { a [label="open] }'), /Unterminated string/);
+});
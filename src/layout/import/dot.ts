@@ -0,0 +1,594 @@
+import { type DimDecl, type EdgeTemplate, type NodeTemplate, type TemplateGraph } from "../ir";
+
+/**
+ * Offline importer for Graphviz DOT as emitted by PyMC's `model_to_graphviz` and NumPyro's
+ * `render_model`.
+ * - `subgraph cluster_*` blocks become dims; labels like `N (100)`, `obs (3) x time (4)` or a
+ *   bare `100` give the dim ids and cardinalities. Nested clusters stack their dims.
+ * - Node shape/style give `NodeTemplate.type` (see {@link nodeTypeFromAttributes}).
+ * - A `~ Family` line in the node label becomes `distribution.family`.
+ */
+
+export interface DotImportResult {
+  templateGraph: TemplateGraph;
+  cardinalities: Record<string, number>;
+  /** Non-fatal issues such as a dim declared with two different sizes. */
+  warnings: string[];
+}
+
+export class DotParseError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = "DotParseError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type Attributes = Record<string, string>;
+
+type TokenKind = "id" | "punct" | "edgeop" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  /** Quoted and HTML ids are never keywords. */
+  quoted: boolean;
+  line: number;
+  column: number;
+}
+
+interface Cluster {
+  id: string;
+  attributes: Attributes;
+  parent: Cluster | null;
+}
+
+interface NodeRecord {
+  id: string;
+  attributes: Attributes;
+  cluster: Cluster | null;
+  /** Set once the node has its own statement; earlier edge mentions may be overridden. */
+  declared: boolean;
+}
+
+interface Scope {
+  cluster: Cluster | null;
+  nodeDefaults: Attributes;
+  edgeDefaults: Attributes;
+}
+
+const KEYWORDS = new Set(["strict", "graph", "digraph", "node", "edge", "subgraph"]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advanceLines = (from: number, to: number): void => {
+    for (let k = from; k < to; k += 1) {
+      if (source[k] === "\n") {
+        line += 1;
+        lineStart = k + 1;
+      }
+    }
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const column = i - lineStart + 1;
+
+    if (ch === "\n") {
+      line += 1;
+      lineStart = i + 1;
+      i += 1;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+
+    if (source.startsWith("//", i) || (ch === "#" && column === 1)) {
+      while (i < source.length && source[i] !== "\n") {
+        i += 1;
+      }
+      continue;
+    }
+
+    if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new DotParseError("Unterminated comment", line, column);
+      }
+      advanceLines(i, end + 2);
+      i = end + 2;
+      continue;
+    }
+
+    if (source.startsWith("->", i) || source.startsWith("--", i)) {
+      tokens.push({ kind: "edgeop", value: source.slice(i, i + 2), quoted: false, line, column });
+      i += 2;
+      continue;
+    }
+
+    if ("{}[];,=:".includes(ch)) {
+      tokens.push({ kind: "punct", value: ch, quoted: false, line, column });
+      i += 1;
+      continue;
+    }
+
+    if (ch === '"') {
+      let value = "";
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"') {
+        if (source[end] === "\\" && source[end + 1] === '"') {
+          value += '"';
+          end += 2;
+        } else if (source[end] === "\\" && source[end + 1] === "\n") {
+          end += 2;
+        } else {
+          value += source[end];
+          end += 1;
+        }
+      }
+      if (end >= source.length) {
+        throw new DotParseError("Unterminated string", line, column);
+      }
+      tokens.push({ kind: "id", value, quoted: true, line, column });
+      advanceLines(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === "<") {
+      let depth = 0;
+      let end = i;
+      do {
+        if (source[end] === "<") {
+          depth += 1;
+        } else if (source[end] === ">") {
+          depth -= 1;
+        }
+        end += 1;
+      } while (end < source.length && depth > 0);
+      if (depth > 0) {
+        throw new DotParseError("Unterminated HTML string", line, column);
+      }
+      tokens.push({ kind: "id", value: source.slice(i + 1, end - 1), quoted: true, line, column });
+      advanceLines(i, end);
+      i = end;
+      continue;
+    }
+
+    const match = /^(-?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)|[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)/.exec(
+      source.slice(i),
+    );
+    if (!match) {
+      throw new DotParseError(`Unexpected character '${ch}'`, line, column);
+    }
+
+    tokens.push({ kind: "id", value: match[0], quoted: false, line, column });
+    i += match[0].length;
+  }
+
+  tokens.push({ kind: "eof", value: "", quoted: false, line, column: i - lineStart + 1 });
+  return tokens;
+}
+
+class DotParser {
+  private index = 0;
+  private readonly mentionStack: Set<string>[] = [];
+
+  readonly nodes = new Map<string, NodeRecord>();
+  readonly edges: { source: string; target: string; attributes: Attributes }[] = [];
+  directed = true;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): void {
+    this.acceptKeyword("strict");
+    const kind = this.next();
+    if (kind.kind !== "id" || kind.quoted || (kind.value !== "graph" && kind.value !== "digraph")) {
+      this.fail(kind, "'graph' or 'digraph'");
+    }
+    this.directed = kind.value === "digraph";
+
+    if (this.peek().kind === "id") {
+      this.index += 1;
+    }
+
+    this.expectPunct("{");
+    this.parseStatements({ cluster: null, nodeDefaults: {}, edgeDefaults: {} });
+    this.expectPunct("}");
+
+    if (this.peek().kind !== "eof") {
+      this.fail(this.peek(), "end of input");
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index += 1;
+    return token;
+  }
+
+  private fail(token: Token, expected: string): never {
+    const found = token.kind === "eof" ? "end of input" : `'${token.value}'`;
+    throw new DotParseError(`Expected ${expected} but found ${found}`, token.line, token.column);
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === "punct" && token.value === value;
+  }
+
+  private isKeyword(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === "id" && !token.quoted && token.value.toLowerCase() === value;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (this.isPunct(value)) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(value: string): boolean {
+    if (this.isKeyword(value)) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) {
+      this.fail(this.peek(), `'${value}'`);
+    }
+  }
+
+  private expectId(expected: string): string {
+    const token = this.next();
+    if (token.kind !== "id" || (!token.quoted && KEYWORDS.has(token.value.toLowerCase()))) {
+      this.fail(token, expected);
+    }
+    return token.value;
+  }
+
+  private parseAttributeList(): Attributes {
+    const attributes: Attributes = {};
+
+    while (this.acceptPunct("[")) {
+      while (!this.acceptPunct("]")) {
+        const key = this.expectId("attribute name");
+        let value = "true";
+        if (this.acceptPunct("=")) {
+          value = this.expectId("attribute value");
+        }
+        attributes[key] = value;
+        if (!this.acceptPunct(",")) {
+          this.acceptPunct(";");
+        }
+      }
+    }
+
+    return attributes;
+  }
+
+  private touchNode(id: string, scope: Scope, attributes: Attributes, declared: boolean): void {
+    for (const mentions of this.mentionStack) {
+      mentions.add(id);
+    }
+
+    const existing = this.nodes.get(id);
+
+    if (!existing) {
+      this.nodes.set(id, {
+        id,
+        attributes: { ...scope.nodeDefaults, ...attributes },
+        cluster: scope.cluster,
+        declared,
+      });
+      return;
+    }
+
+    if (declared && !existing.declared) {
+      existing.cluster = scope.cluster;
+      existing.attributes = { ...scope.nodeDefaults, ...existing.attributes };
+      existing.declared = true;
+    }
+
+    Object.assign(existing.attributes, attributes);
+  }
+
+  private parseStatements(scope: Scope): void {
+    while (!this.isPunct("}")) {
+      if (this.peek().kind === "eof") {
+        this.fail(this.peek(), "'}'");
+      }
+
+      this.parseStatement(scope);
+      this.acceptPunct(";");
+    }
+  }
+
+  private parseStatement(scope: Scope): void {
+    if (this.isKeyword("graph") && this.isPunct("[", 1)) {
+      this.index += 1;
+      Object.assign(scope.cluster?.attributes ?? {}, this.parseAttributeList());
+      return;
+    }
+
+    if (this.isKeyword("node") && this.isPunct("[", 1)) {
+      this.index += 1;
+      Object.assign(scope.nodeDefaults, this.parseAttributeList());
+      return;
+    }
+
+    if (this.isKeyword("edge") && this.isPunct("[", 1)) {
+      this.index += 1;
+      Object.assign(scope.edgeDefaults, this.parseAttributeList());
+      return;
+    }
+
+    if (this.peek().kind === "id" && this.isPunct("=", 1)) {
+      const key = this.expectId("attribute name");
+      this.expectPunct("=");
+      const value = this.expectId("attribute value");
+      if (scope.cluster) {
+        scope.cluster.attributes[key] = value;
+      }
+      return;
+    }
+
+    const first = this.parseEndpoint(scope);
+    if (this.peek().kind !== "edgeop") {
+      const attributes = this.parseAttributeList();
+      if (first.kind === "node") {
+        this.touchNode(first.ids[0], scope, attributes, true);
+      }
+      return;
+    }
+
+    const endpoints = [first];
+    while (this.peek().kind === "edgeop") {
+      this.index += 1;
+      endpoints.push(this.parseEndpoint(scope));
+    }
+
+    const attributes = { ...scope.edgeDefaults, ...this.parseAttributeList() };
+    for (let i = 1; i < endpoints.length; i += 1) {
+      for (const source of endpoints[i - 1].ids) {
+        for (const target of endpoints[i].ids) {
+          this.edges.push({ source, target, attributes: { ...attributes } });
+        }
+      }
+    }
+  }
+
+  private parseEndpoint(scope: Scope): { kind: "node" | "subgraph"; ids: string[] } {
+    if (this.isKeyword("subgraph") || this.isPunct("{")) {
+      return { kind: "subgraph", ids: this.parseSubgraph(scope) };
+    }
+
+    const id = this.expectId("node id");
+    if (this.acceptPunct(":")) {
+      this.expectId("port");
+      if (this.acceptPunct(":")) {
+        this.expectId("compass point");
+      }
+    }
+
+    this.touchNode(id, scope, {}, false);
+    return { kind: "node", ids: [id] };
+  }
+
+  /**
+   * Returns the ids of every node mentioned inside the subgraph, for edges like `a -> { b c }`.
+   */
+  private parseSubgraph(scope: Scope): string[] {
+    let id = "";
+    if (this.acceptKeyword("subgraph") && this.peek().kind === "id") {
+      id = this.expectId("subgraph id");
+    }
+
+    const isCluster = id.toLowerCase().startsWith("cluster");
+    const cluster: Cluster | null = isCluster
+      ? { id, attributes: {}, parent: scope.cluster }
+      : scope.cluster;
+
+    const mentions = new Set<string>();
+    this.mentionStack.push(mentions);
+    this.expectPunct("{");
+    this.parseStatements({
+      cluster,
+      nodeDefaults: { ...scope.nodeDefaults },
+      edgeDefaults: { ...scope.edgeDefaults },
+    });
+    this.expectPunct("}");
+    this.mentionStack.pop();
+
+    return [...mentions];
+  }
+}
+
+interface PlateDim {
+  id: string;
+  size?: number;
+}
+
+function dimIdFromCluster(clusterId: string): string {
+  const stripped = clusterId.replace(/^cluster[_\s-]*/i, "").trim();
+  const cleaned = stripped.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+  return cleaned.length > 0 && !/^[0-9]/.test(cleaned) ? cleaned : `dim_${cleaned || clusterId}`;
+}
+
+/**
+ * Parse a plate label into dims: `N (100)`, `100`, `obs (3) x time (4)` or `N`.
+ */
+function plateDimsFromLabel(label: string | undefined, clusterId: string): PlateDim[] {
+  const text = (label ?? "").trim();
+  if (text.length === 0) {
+    return [{ id: dimIdFromCluster(clusterId) }];
+  }
+
+  return text.split(/\s+(?:x|×)\s+/).map((part) => {
+    const named = /^(.+?)\s*\(\s*([0-9]+)\s*\)$/.exec(part.trim());
+    if (named) {
+      return { id: named[1].trim(), size: Number(named[2]) };
+    }
+
+    if (/^[0-9]+$/.test(part.trim())) {
+      return { id: `dim_${part.trim()}`, size: Number(part.trim()) };
+    }
+
+    return { id: part.trim() };
+  });
+}
+
+function styleParts(attributes: Attributes): string[] {
+  return (attributes.style ?? "").split(",").map((part) => part.trim().toLowerCase());
+}
+
+/**
+ * Map Graphviz node attributes to plateify node types:
+ * - filled ellipse/circle → `observed`
+ * - box/rect → `deterministic` (`observed` when rounded + filled, PyMC's `pm.Data`)
+ * - point/plain/plaintext → `source`
+ * - octagon → `auxiliary`
+ * - anything else → `latent`
+ */
+export function nodeTypeFromAttributes(attributes: Readonly<Attributes>): string {
+  const shape = (attributes.shape ?? "ellipse").toLowerCase();
+  const style = styleParts(attributes);
+  const filled = style.includes("filled");
+
+  if (shape === "box" || shape === "rect" || shape === "rectangle" || shape === "square") {
+    return filled && style.includes("rounded") ? "observed" : "deterministic";
+  }
+
+  if (shape === "point" || shape === "plain" || shape === "plaintext" || shape === "none") {
+    return "source";
+  }
+
+  if (shape === "octagon") {
+    return "auxiliary";
+  }
+
+  if (filled && (shape === "ellipse" || shape === "oval" || shape === "circle" || shape === "doublecircle")) {
+    return "observed";
+  }
+
+  return "latent";
+}
+
+function symbolAndFamily(label: string | undefined): { symbol?: string; family?: string } {
+  if (!label) {
+    return {};
+  }
+
+  const lines = label
+    .split(/\\n|\\l|\\r|\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const tilde = lines.indexOf("~");
+  const family = tilde !== -1 ? lines[tilde + 1] : lines.find((line) => line.startsWith("~"))?.slice(1).trim();
+
+  return { symbol: lines[0], family: family && family.length > 0 ? family : undefined };
+}
+
+/**
+ * Import a DOT document into a plateify template graph.
+ * Throws {@link DotParseError} on malformed input.
+ */
+export function importDot(source: string): DotImportResult {
+  const parser = new DotParser(tokenize(source));
+  parser.parse();
+
+  const warnings: string[] = [];
+  const dims: DimDecl[] = [];
+  const cardinalities: Record<string, number> = {};
+  const dimsByCluster = new Map<Cluster, string[]>();
+
+  const clusterDims = (cluster: Cluster): string[] => {
+    const cached = dimsByCluster.get(cluster);
+    if (cached) {
+      return cached;
+    }
+
+    const own = plateDimsFromLabel(cluster.attributes.label, cluster.id);
+    for (const dim of own) {
+      if (!dims.some((decl) => decl.id === dim.id)) {
+        dims.push({ id: dim.id, label: dim.id });
+      }
+
+      if (dim.size !== undefined) {
+        const known = cardinalities[dim.id];
+        if (known === undefined) {
+          cardinalities[dim.id] = dim.size;
+        } else if (known !== dim.size) {
+          warnings.push(`Dim "${dim.id}" has sizes ${known} and ${dim.size}; keeping ${known}`);
+        }
+      }
+    }
+
+    const parentDims = cluster.parent ? clusterDims(cluster.parent) : [];
+    const all = [...parentDims, ...own.map((dim) => dim.id).filter((id) => !parentDims.includes(id))];
+    dimsByCluster.set(cluster, all);
+    return all;
+  };
+
+  const nodes: NodeTemplate[] = [...parser.nodes.values()].map((record) => {
+    const node: NodeTemplate = {
+      id: record.id,
+      type: nodeTypeFromAttributes(record.attributes),
+      dims: record.cluster ? [...clusterDims(record.cluster)] : [],
+    };
+
+    const { symbol, family } = symbolAndFamily(record.attributes.label);
+    if (symbol && symbol !== record.id) {
+      node.symbol = symbol;
+    }
+    if (family) {
+      node.distribution = { family };
+    }
+
+    return node;
+  });
+
+  for (const dim of dims) {
+    if (cardinalities[dim.id] === undefined) {
+      warnings.push(`Dim "${dim.id}" has no size in its plate label`);
+    }
+  }
+
+  const edges: EdgeTemplate[] = parser.edges.map(({ source, target, attributes }) => {
+    const edge: EdgeTemplate = { sourceTemplateId: source, targetTemplateId: target };
+    if (!parser.directed || (attributes.dir ?? "").toLowerCase() === "none") {
+      edge.directed = false;
+    }
+    return edge;
+  });
+
+  return {
+    templateGraph: {
+      dims,
+      nodes,
+      edges,
+    },
+    cardinalities,
+    warnings,
+  };
+}
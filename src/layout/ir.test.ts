@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { buildDefaultFixtureGraphIR } from "./fixtures/defaultPlateGraph";
+import { buildGraphIR, inferPlateTree, type NodeTemplate } from "./ir";
+
+function templates(...dimSets: string[][]): NodeTemplate[] {
+  return dimSets.map((dims, index) => ({ id: `n${index}`, type: "latent", dims }));
+}
+
+test("inferPlateTree nests plates along prefixes of the canonical path", () => {
+  const tree = inferPlateTree(templates(["c"], ["c", "p"], ["c", "p", "t"]));
+
+  assert.deepEqual(tree.rootKeys, ["c"]);
+  assert.equal(tree.plates.find((plate) => plate.key === "c|p")?.parentKey, "c");
+  assert.equal(tree.plates.find((plate) => plate.key === "c|p|t")?.parentKey, "c|p");
+  assert.equal(tree.plates.find((plate) => plate.key === "c|p|t")?.depth, 2);
+});
+
+test("inferPlateTree keeps containment when no prefix plate is used", () => {
+  const tree = inferPlateTree(templates(["p"], ["c", "p"], ["c", "q"]));
+  const plate = tree.plates.find((candidate) => candidate.key === "c|p");
+
+  assert.equal(plate?.parentKey, "p");
+  assert.deepEqual(tree.rootKeys, ["c|q", "p"]);
+});
+
+test("inferPlateTree records containers off the parent chain as intersections", () => {
+  const tree = inferPlateTree(templates(["c"], ["p"], ["c", "p"]));
+
+  assert.equal(tree.plates.find((plate) => plate.key === "c|p")?.parentKey, "c");
+  assert.deepEqual(
+    tree.intersections.map(({ a, b, witnessKey }) => ({ a, b, witnessKey })),
+    [{ a: "c", b: "p", witnessKey: "c|p" }],
+  );
+});
+
+test("inferPlateTree roots everything at the empty-dims plate when one is used", () => {
+  const tree = inferPlateTree(templates([], ["c"], ["c", "p"], ["t"]));
+  const byKey = new Map(tree.plates.map((plate) => [plate.key, plate]));
+
+  assert.deepEqual(tree.rootKeys, [""]);
+  assert.deepEqual(byKey.get("")?.childKeys, ["c", "t"]);
+  assert.deepEqual([byKey.get("c|p")?.parentKey, byKey.get("c|p")?.depth], ["c", 2]);
+  assert.deepEqual(tree.intersections, []);
+});
+
+test("buildGraphIR broadcasts edges over shared dims, fanning out and reducing the rest", () => {
+  const ir = buildGraphIR(
+    {
+      dims: [{ id: "n" }, { id: "k" }],
+      nodes: [
+        { id: "g", type: "latent", dims: [] },
+        { id: "a", type: "latent", dims: ["n"] },
+        { id: "b", type: "observed", dims: ["n", "k"] },
+        { id: "s", type: "latent", dims: [] },
+      ],
+      edges: [
+        { sourceTemplateId: "g", targetTemplateId: "a" },
+        { sourceTemplateId: "a", targetTemplateId: "b" },
+        { sourceTemplateId: "b", targetTemplateId: "s", reducedDims: ["n", "k"] },
+      ],
+    },
+    { n: 3, k: 2 },
+    { nodeSizeCellsByType: { observed: 2 } },
+  );
+  const edgesFrom = (templateEdgeId: string) =>
+    ir.instanceGraph.edges.filter((edge) => edge.templateEdgeId === templateEdgeId);
+
+  assert.equal(ir.instanceGraph.nodes.length, 1 + 3 + 6 + 1);
+  assert.deepEqual(
+    ir.instanceGraph.nodes.filter((node) => node.templateId === "b").map((node) => [node.instanceId, node.sizeCells]),
+    [["b[0,0]", 2], ["b[0,1]", 2], ["b[1,0]", 2], ["b[1,1]", 2], ["b[2,0]", 2], ["b[2,1]", 2]],
+  );
+  assert.deepEqual(
+    edgesFrom("g->a").map((edge) => edge.targetInstanceId),
+    ["a[0]", "a[1]", "a[2]"],
+  );
+  assert.deepEqual(
+    edgesFrom("a->b").filter((edge) => edge.sourceInstanceId === "a[1]").map((edge) => edge.targetInstanceId),
+    ["b[1,0]", "b[1,1]"],
+  );
+  assert.equal(edgesFrom("a->b").length, 6);
+  assert.deepEqual(new Set(edgesFrom("b->s").map((edge) => edge.targetInstanceId)), new Set(["s"]));
+  assert.equal(edgesFrom("b->s").length, 6);
+});
+
+test("the default fixture unrolls to 72 instances and 138 edges", () => {
+  const ir = buildDefaultFixtureGraphIR();
+
+  assert.equal(ir.instanceGraph.nodes.length, 72);
+  assert.equal(ir.instanceGraph.edges.length, 138);
+  assert.deepEqual(
+    ir.plateHierarchies.map((plate) => plate.key),
+    ["", "c", "c|p", "c|p|t", "c|t", "p"],
+  );
+});
@@ -26,6 +26,11 @@ export interface EdgeTemplate {
   sourceTemplateId: string;
   targetTemplateId: string;
   directed?: boolean;
+  /**
+   * Source dims that this edge aggregates away (e.g. a sum over `p`).
+   * Dims dropped between source and target without being listed here are flagged by validation.
+   */
+  reducedDims?: string[];
 }
 
 export interface PlateHierarchy {
@@ -35,6 +40,31 @@ export interface PlateHierarchy {
   dims: string[];
   /** Plate nesting path from outermost to innermost. */
   path: string[];
+  /** Key of the enclosing plate in the containment forest, or `null` for a root. */
+  parentKey: string | null;
+  /** Keys of directly nested plates, sorted. */
+  childKeys: string[];
+  /** Keys of plates that must overlap this one without either nesting in the other. */
+  intersectingKeys: string[];
+  /** Number of ancestors in the containment forest. */
+  depth: number;
+}
+
+export interface PlateIntersection {
+  a: string;
+  b: string;
+  /** Dims present in both plates. */
+  sharedDims: string[];
+  /** Smallest used plate that lies inside both, which forces the overlap. */
+  witnessKey: string;
+}
+
+export interface PlateTree {
+  /** Canonical outer-to-inner dim order used to build every plate path. */
+  dimOrder: string[];
+  rootKeys: string[];
+  plates: PlateHierarchy[];
+  intersections: PlateIntersection[];
 }
 
 export interface ExpandedNode {
@@ -51,15 +81,17 @@ export interface ExpandedEdge {
   templateEdgeId: string;
 }
 
+export interface TemplateGraph {
+  dims: DimDecl[];
+  nodes: NodeTemplate[];
+  edges: EdgeTemplate[];
+}
+
 /**
  * Debug structure that keeps both template-level and instance-level graphs.
  */
 export interface GraphIR {
-  templateGraph: {
-    dims: DimDecl[];
-    nodes: NodeTemplate[];
-    edges: EdgeTemplate[];
-  };
+  templateGraph: TemplateGraph;
   instanceGraph: {
     nodes: ExpandedNode[];
     edges: ExpandedEdge[];
@@ -82,12 +114,57 @@ export function plateKeyForDims(dims: readonly string[]): string {
   return normalizeDims(dims).join("|");
 }
 
+function isStrictSubset(inner: readonly string[], outer: readonly string[]): boolean {
+  return inner.length < outer.length && inner.every((dim) => outer.includes(dim));
+}
+
 /**
- * Infer unique plate hierarchies from template node dimensions.
- * - Uniqueness is set-based (order-insensitive).
- * - Returned hierarchies are sorted by plate key for stable debugging output.
+ * Rank dims from outermost to innermost: dims used by more plates enclose dims used by
+ * fewer. Ties fall back to declaration order, then to id.
+ */
+function canonicalDimOrder(
+  plateDims: readonly string[][],
+  dimDecls: readonly DimDecl[],
+): string[] {
+  const usage = new Map<string, number>();
+  for (const dims of plateDims) {
+    for (const dim of dims) {
+      usage.set(dim, (usage.get(dim) ?? 0) + 1);
+    }
+  }
+
+  const declared = new Map(dimDecls.map((decl, index) => [decl.id, index]));
+  return [...usage.keys()].sort((a, b) => {
+    const byUsage = (usage.get(b) ?? 0) - (usage.get(a) ?? 0);
+    if (byUsage !== 0) {
+      return byUsage;
+    }
+
+    const declA = declared.get(a) ?? dimDecls.length;
+    const declB = declared.get(b) ?? dimDecls.length;
+    if (declA !== declB) {
+      return declA - declB;
+    }
+
+    return a.localeCompare(b);
+  });
+}
+
+/**
+ * Infer the plate containment forest from the dim sets used by node templates.
+ * - A plate with dims `D` lies inside every used plate whose dims are a strict subset of
+ *   `D` (e.g. `[c] ⊃ [c,p] ⊃ [c,p,t]` as rectangles).
+ * - Each plate's `path` lists its dims in the canonical outer-to-inner order; its tree
+ *   parent is the largest used plate whose dims are a strict subset, preferring one that
+ *   matches a prefix of the path.
+ * - Plates that neither nest nor are disjoint (some used plate lies inside both, like
+ *   `[c,t]` and `[c,p]` around `[c,p,t]`) are reported as intersections. This includes
+ *   every container of a plate that is not on its parent chain, so no containment is lost.
  */
-export function inferPlateHierarchies(templates: readonly NodeTemplate[]): PlateHierarchy[] {
+export function inferPlateTree(
+  templates: readonly NodeTemplate[],
+  dimDecls: readonly DimDecl[] = [],
+): PlateTree {
   const byKey = new Map<string, string[]>();
 
   for (const template of templates) {
@@ -99,11 +176,257 @@ export function inferPlateHierarchies(templates: readonly NodeTemplate[]): Plate
     }
   }
 
-  return [...byKey.entries()]
-    .sort(([a], [b]) => a.localeCompare(b))
-    .map(([key, dims]) => ({
+  const keys = [...byKey.keys()].sort((a, b) => a.localeCompare(b));
+  const dimOrder = canonicalDimOrder([...byKey.values()], dimDecls);
+  const rank = new Map(dimOrder.map((dim, index) => [dim, index]));
+  const plates = new Map<string, PlateHierarchy>();
+
+  for (const key of keys) {
+    const dims = byKey.get(key) as string[];
+    const path = [...dims].sort((a, b) => (rank.get(a) ?? 0) - (rank.get(b) ?? 0));
+
+    const dimsOf = (candidateKey: string) => byKey.get(candidateKey) as string[];
+    const isPrefix = (candidateKey: string) =>
+      dimsOf(candidateKey).every((dim) => path.slice(0, dimsOf(candidateKey).length).includes(dim));
+    const containers = keys
+      .filter((candidateKey) => isStrictSubset(dimsOf(candidateKey), dims))
+      .sort(
+        (x, y) =>
+          dimsOf(y).length - dimsOf(x).length ||
+          Number(isPrefix(y)) - Number(isPrefix(x)) ||
+          x.localeCompare(y),
+      );
+    const parentKey = containers[0] ?? null;
+
+    plates.set(key, {
       key,
       dims,
-      path: dims,
+      path,
+      parentKey,
+      childKeys: [],
+      intersectingKeys: [],
+      depth: 0,
+    });
+  }
+
+  for (const plate of plates.values()) {
+    if (plate.parentKey !== null) {
+      plates.get(plate.parentKey)?.childKeys.push(plate.key);
+    }
+
+    let cursor = plate.parentKey;
+    while (cursor !== null) {
+      plate.depth += 1;
+      cursor = plates.get(cursor)?.parentKey ?? null;
+    }
+  }
+
+  const ordered = keys.map((key) => plates.get(key) as PlateHierarchy);
+  const intersections: PlateIntersection[] = [];
+
+  for (let i = 0; i < ordered.length; i += 1) {
+    for (let j = i + 1; j < ordered.length; j += 1) {
+      const a = ordered[i];
+      const b = ordered[j];
+      if (isStrictSubset(a.dims, b.dims) || isStrictSubset(b.dims, a.dims)) {
+        continue;
+      }
+
+      const union = normalizeDims([...a.dims, ...b.dims]);
+      const witness = ordered
+        .filter((candidate) => union.every((dim) => candidate.dims.includes(dim)))
+        .sort((x, y) => x.dims.length - y.dims.length || x.key.localeCompare(y.key))[0];
+
+      if (!witness) {
+        continue;
+      }
+
+      a.intersectingKeys.push(b.key);
+      b.intersectingKeys.push(a.key);
+      intersections.push({
+        a: a.key,
+        b: b.key,
+        sharedDims: a.dims.filter((dim) => b.dims.includes(dim)),
+        witnessKey: witness.key,
+      });
+    }
+  }
+
+  return {
+    dimOrder,
+    rootKeys: ordered.filter((plate) => plate.parentKey === null).map((plate) => plate.key),
+    plates: ordered,
+    intersections,
+  };
+}
+
+/**
+ * Infer unique plate hierarchies from template node dimensions.
+ * - Uniqueness is set-based (order-insensitive).
+ * - Returned hierarchies are sorted by plate key for stable debugging output.
+ * - Paths, parents and intersections come from {@link inferPlateTree}.
+ */
+export function inferPlateHierarchies(
+  templates: readonly NodeTemplate[],
+  dimDecls: readonly DimDecl[] = [],
+): PlateHierarchy[] {
+  return inferPlateTree(templates, dimDecls).plates;
+}
+
+export interface GraphSizing {
+  /** Node footprint in grid cells keyed by `NodeTemplate.type`. */
+  nodeSizeCellsByType: Readonly<Record<string, number>>;
+  /** Fallback footprint for types missing from `nodeSizeCellsByType`. */
+  defaultSizeCells?: number;
+}
+
+const DEFAULT_SIZE_CELLS = 1;
+
+export function cloneEdgeTemplate(edge: EdgeTemplate): EdgeTemplate {
+  return edge.reducedDims ? { ...edge, reducedDims: [...edge.reducedDims] } : { ...edge };
+}
+
+/**
+ * Stable id for a template edge. Repeated source/target pairs get a `#n` suffix.
+ */
+export function templateEdgeId(edge: EdgeTemplate, occurrence = 0): string {
+  const base = `${edge.sourceTemplateId}->${edge.targetTemplateId}`;
+  return occurrence === 0 ? base : `${base}#${occurrence}`;
+}
+
+/**
+ * Ids for every edge in declaration order, numbering repeated source/target pairs.
+ */
+export function templateEdgeIds(edges: readonly EdgeTemplate[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return edges.map((edge) => {
+    const baseId = templateEdgeId(edge);
+    const occurrence = occurrences.get(baseId) ?? 0;
+    occurrences.set(baseId, occurrence + 1);
+    return templateEdgeId(edge, occurrence);
+  });
+}
+
+/**
+ * Stable id for one unrolled instance, e.g. `r_cp[0,1]`.
+ */
+export function instanceIdFor(templateId: string, indexTuple: readonly number[]): string {
+  return indexTuple.length === 0 ? templateId : `${templateId}[${indexTuple.join(",")}]`;
+}
+
+function cardinalityFor(dim: string, cardinalities: Readonly<Record<string, number>>): number {
+  const value = cardinalities[dim];
+  if (value === undefined || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Missing or invalid cardinality for dim "${dim}"`);
+  }
+
+  return value;
+}
+
+/**
+ * Cartesian product of index ranges; the last dim varies fastest.
+ */
+function indexTuples(sizes: readonly number[]): number[][] {
+  let tuples: number[][] = [[]];
+
+  for (const size of sizes) {
+    const next: number[][] = [];
+    for (const tuple of tuples) {
+      for (let i = 0; i < size; i += 1) {
+        next.push([...tuple, i]);
+      }
+    }
+    tuples = next;
+  }
+
+  return tuples;
+}
+
+/**
+ * Unroll a template graph into its instance graph.
+ * - Each node template becomes one instance per index tuple over its declared dims.
+ * - Each edge template is broadcast over the dims shared by its endpoints: instances are
+ *   connected when their indices agree on every shared dim. Dims only on the source act as
+ *   a reduction (many-to-one), dims only on the target as a fan-out (one-to-many).
+ */
+export function buildGraphIR(
+  templateGraph: TemplateGraph,
+  cardinalities: Readonly<Record<string, number>>,
+  sizing: GraphSizing,
+): GraphIR {
+  const plateHierarchies = inferPlateHierarchies(templateGraph.nodes, templateGraph.dims);
+  const plateByKey = new Map(plateHierarchies.map((plate) => [plate.key, plate]));
+  const instancesByTemplate = new Map<string, ExpandedNode[]>();
+  const nodes: ExpandedNode[] = [];
+
+  for (const template of templateGraph.nodes) {
+    const sizes = template.dims.map((dim) => cardinalityFor(dim, cardinalities));
+    const plate = plateByKey.get(plateKeyForDims(template.dims));
+    const sizeCells =
+      sizing.nodeSizeCellsByType[template.type] ?? sizing.defaultSizeCells ?? DEFAULT_SIZE_CELLS;
+
+    const instances = indexTuples(sizes).map((indexTuple) => ({
+      instanceId: instanceIdFor(template.id, indexTuple),
+      templateId: template.id,
+      indexTuple,
+      platePath: [...(plate?.path ?? [])],
+      sizeCells,
     }));
+
+    instancesByTemplate.set(template.id, instances);
+    nodes.push(...instances);
+  }
+
+  const templatesById = new Map(templateGraph.nodes.map((template) => [template.id, template]));
+  const edgeIds = templateEdgeIds(templateGraph.edges);
+  const edges: ExpandedEdge[] = [];
+
+  templateGraph.edges.forEach((edge, edgeIndex) => {
+    const source = templatesById.get(edge.sourceTemplateId);
+    const target = templatesById.get(edge.targetTemplateId);
+    if (!source || !target) {
+      throw new Error(
+        `Edge references unknown template: ${edge.sourceTemplateId} -> ${edge.targetTemplateId}`,
+      );
+    }
+
+    const edgeId = edgeIds[edgeIndex];
+
+    const shared = normalizeDims(source.dims.filter((dim) => target.dims.includes(dim)));
+    const sourcePositions = shared.map((dim) => source.dims.indexOf(dim));
+    const targetPositions = shared.map((dim) => target.dims.indexOf(dim));
+
+    const targetsByShared = new Map<string, ExpandedNode[]>();
+    for (const instance of instancesByTemplate.get(target.id) ?? []) {
+      const key = targetPositions.map((pos) => instance.indexTuple[pos]).join(",");
+      const bucket = targetsByShared.get(key);
+      if (bucket) {
+        bucket.push(instance);
+      } else {
+        targetsByShared.set(key, [instance]);
+      }
+    }
+
+    for (const sourceInstance of instancesByTemplate.get(source.id) ?? []) {
+      const key = sourcePositions.map((pos) => sourceInstance.indexTuple[pos]).join(",");
+      for (const targetInstance of targetsByShared.get(key) ?? []) {
+        edges.push({
+          sourceInstanceId: sourceInstance.instanceId,
+          targetInstanceId: targetInstance.instanceId,
+          templateEdgeId: edgeId,
+        });
+      }
+    }
+  });
+
+  return {
+    templateGraph: {
+      dims: templateGraph.dims.map((dim) => ({ ...dim })),
+      nodes: templateGraph.nodes.map((node) => ({ ...node, dims: [...node.dims] })),
+      edges: templateGraph.edges.map(cloneEdgeTemplate),
+    },
+    instanceGraph: { nodes, edges },
+    plateHierarchies,
+  };
 }
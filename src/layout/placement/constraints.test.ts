@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createRng, initializeAnneal, randInt, runAnneal, type AnnealRngState } from "../anneal/engine";
+import { buildDefaultFixtureConfig, buildDefaultFixtureGraphIR } from "../fixtures/defaultPlateGraph";
+import type { GridRect } from "../routing/draftRouter";
+import {
+  hardPlateViolation,
+  measurePlateViolations,
+  platePenaltyComponents,
+  withPlateConstraints,
+} from "./constraints";
+import {
+  buildPlacementAnnealProblem,
+  buildPlacementModel,
+  decodePlacement,
+  type PlacementElement,
+  type PlacementModel,
+  type PlacementPlate,
+} from "./grid";
+
+function element(id: string, dims: string[]): PlacementElement {
+  return { id, templateId: id, type: "latent", dims, plateKey: dims.join("|"), sizeCells: 1 };
+}
+
+function plate(dims: string[], memberIndices: number[], related: Partial<PlacementPlate> = {}): PlacementPlate {
+  const key = dims.join("|");
+  return { key, dims, parentKey: null, depth: 0, memberIndices, innerPlateKeys: [], intersectingKeys: [], ...related };
+}
+
+/** Sibling plates `a` and `b` with one member each. */
+const SIBLINGS: PlacementModel = {
+  level: "template",
+  dims: [{ id: "a" }, { id: "b" }],
+  elements: [element("x", ["a"]), element("y", ["b"])],
+  edges: [],
+  plates: [plate(["a"], [0]), plate(["b"], [1])],
+  platePadding: 1,
+};
+
+/** Intersecting plates `c` and `p` sharing the `c|p` plate, with one member each. */
+const INTERSECTING: PlacementModel = {
+  level: "template",
+  dims: [{ id: "c" }, { id: "p" }],
+  elements: [element("x", ["c"]), element("z", ["c", "p"]), element("y", ["p"])],
+  edges: [],
+  plates: [
+    plate(["c", "p"], [1]),
+    plate(["c"], [0], { innerPlateKeys: ["c|p"], intersectingKeys: ["p"] }),
+    plate(["p"], [2], { innerPlateKeys: ["c|p"], intersectingKeys: ["c"] }),
+  ],
+  platePadding: 1,
+};
+
+const violationsOf = (model: PlacementModel, layout: readonly number[]) =>
+  measurePlateViolations(model, decodePlacement(model, layout));
+
+const zeroCost = () => ({ total: 0, components: {} });
+
+function defaultFixtureModel(): PlacementModel {
+  return buildPlacementModel(buildDefaultFixtureGraphIR(), {
+    cardinalities: buildDefaultFixtureConfig().cardinalities,
+  });
+}
+
+test("overlapping sibling plates violate disjointness and containment", () => {
+  assert.deepEqual(violationsOf(SIBLINGS, [0, 0, 4, 0]), { containment: 0, disjoint: 0 });
+
+  // The 3x3 plates overlap in a 1x3 strip; neither member sits in it.
+  assert.deepEqual(violationsOf(SIBLINGS, [0, 0, 2, 0]), { containment: 0, disjoint: 3 });
+  // Now `y` lies inside plate `a`.
+  assert.deepEqual(violationsOf(SIBLINGS, [0, 0, 1, 0]), { containment: 2, disjoint: 6 });
+});
+
+test("intersecting plates may overlap where their shared-dim elements are", () => {
+  assert.deepEqual(violationsOf(INTERSECTING, [0, 0, 4, 0, 8, 0]), { containment: 0, disjoint: 0 });
+
+  // `x` carries only `c`, so entering plate `p` breaks containment but not disjointness.
+  const { containment, disjoint } = violationsOf(INTERSECTING, [5, 0, 4, 0, 8, 0]);
+  assert.ok(containment > 0);
+  assert.equal(disjoint, 0);
+});
+
+test("hard, penalty and off modes split violations between feasibility and cost", () => {
+  const violations = { containment: 2, disjoint: 3 };
+  const config = { modes: { containment: "hard", disjoint: "penalty" }, weights: { disjoint: 4 } } as const;
+
+  assert.equal(hardPlateViolation(violations, config), 2);
+  assert.deepEqual(platePenaltyComponents(violations, config), { P_disjoint: 12 });
+  assert.deepEqual(platePenaltyComponents(violations), { P_contain: 20, P_disjoint: 30 });
+  assert.equal(hardPlateViolation(violations, { modes: { containment: "off", disjoint: "off" } }), 0);
+  assert.deepEqual(platePenaltyComponents(violations, { modes: { containment: "off", disjoint: "off" } }), {});
+});
+
+test("penalty mode adds weighted terms to the cost and off mode leaves the problem alone", () => {
+  const problem = buildPlacementAnnealProblem(SIBLINGS, zeroCost, { initialLayout: [0, 0, 1, 0] });
+
+  const penalized = withPlateConstraints(problem, SIBLINGS, { weights: { containment: 1 } });
+  assert.deepEqual(penalized.evaluateCost(problem.initialLayout), {
+    total: 62,
+    components: { P_contain: 2, P_disjoint: 60 },
+  });
+  assert.equal(penalized.hardConstraintViolation, undefined);
+
+  const off = withPlateConstraints(problem, SIBLINGS, { modes: { containment: "off", disjoint: "off" } });
+  assert.equal(off.evaluateCost, problem.evaluateCost);
+  assert.equal(off.hardConstraintViolation, undefined);
+  assert.deepEqual(off.initialLayout, problem.initialLayout);
+});
+
+test("hard mode repairs an infeasible start and never visits an infeasible layout", () => {
+  const model = defaultFixtureModel();
+  const problem = buildPlacementAnnealProblem(model, zeroCost, { maxNudgeStep: 3 });
+  assert.ok(violationsOf(model, problem.initialLayout).containment > 0);
+  const containment = (layout: readonly number[]) => violationsOf(model, layout).containment;
+  assert.throws(
+    () => initializeAnneal({ ...problem, hardConstraintViolation: containment }, 1),
+    /Initial layout violates hard constraints/,
+  );
+
+  const hard = withPlateConstraints(problem, model, { modes: { containment: "hard", disjoint: "hard" } });
+  assert.deepEqual(violationsOf(model, hard.initialLayout), { containment: 0, disjoint: 0 });
+
+  const state = runAnneal(initializeAnneal(hard, 7), 300, (_, current) => {
+    assert.deepEqual(violationsOf(model, current.layout), { containment: 0, disjoint: 0 });
+  });
+  assert.notDeepEqual(state.layout, hard.initialLayout);
+});
+
+function inside(inner: GridRect, outer: GridRect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+test("decoding keeps every nested plate inside the plates around it", () => {
+  const model = defaultFixtureModel();
+  let rngState: AnnealRngState = createRng(3);
+
+  for (let trial = 0; trial < 50; trial += 1) {
+    const layout = model.elements.flatMap(() => {
+      let value;
+      [value, rngState] = randInt(41, rngState);
+      const x = value - 20;
+      [value, rngState] = randInt(41, rngState);
+      return [x, value - 20];
+    });
+    const rects = new Map(decodePlacement(model, layout).plates.map((placed) => [placed.key, placed.rect]));
+
+    for (const outer of model.plates) {
+      for (const innerKey of outer.innerPlateKeys) {
+        const [innerRect, outerRect] = [rects.get(innerKey), rects.get(outer.key)];
+        assert.ok(innerRect && outerRect && inside(innerRect, outerRect), `${innerKey} inside ${outer.key}`);
+      }
+    }
+  }
+});
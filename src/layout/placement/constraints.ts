@@ -0,0 +1,162 @@
+import { repairLayout, type AnnealProblem } from "../anneal/engine";
+import type { GridRect } from "../routing/draftRouter";
+import { decodePlacement, type GridPlacement, type PlacementModel } from "./grid";
+
+/**
+ * - `containment`: an element may only overlap plates whose dims it carries, so members
+ *   stay inside their plate and nothing else intrudes.
+ * - `disjoint`: plates that neither nest nor intersect (see `inferPlateTree`) do not overlap.
+ *   Intersecting plates may overlap; `containment` keeps the overlap to shared-dim elements.
+ * Nesting needs no rule: `decodePlacement` grows every plate around the plates inside it.
+ */
+export type PlateConstraintRule = "containment" | "disjoint";
+
+/**
+ * `hard` rules are never violated by a proposed move (or by the start layout, which is
+ * repaired first), `penalty` rules add a cost term, `off` rules are ignored.
+ */
+export type PlateConstraintMode = "hard" | "penalty" | "off";
+
+export interface PlateConstraintConfig {
+  modes?: Partial<Record<PlateConstraintRule, PlateConstraintMode>>;
+  /** Penalty weight per violating grid cell. */
+  weights?: Partial<Record<PlateConstraintRule, number>>;
+}
+
+/** Violating area in grid cells per rule. */
+export type PlateConstraintViolations = Record<PlateConstraintRule, number>;
+
+export const PLATE_CONSTRAINT_RULES: readonly PlateConstraintRule[] = ["containment", "disjoint"];
+
+/** Cost component names used for penalty-mode rules. */
+export const PLATE_PENALTY_TERMS: Record<PlateConstraintRule, string> = {
+  containment: "P_contain",
+  disjoint: "P_disjoint",
+};
+
+const DEFAULT_MODE: PlateConstraintMode = "penalty";
+const DEFAULT_PENALTY_WEIGHT = 10;
+const REPAIR_SEED = 1;
+
+function overlapArea(a: GridRect, b: GridRect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function modeFor(config: PlateConstraintConfig, rule: PlateConstraintRule): PlateConstraintMode {
+  return config.modes?.[rule] ?? DEFAULT_MODE;
+}
+
+/**
+ * Measure each rule's violation as overlapping area in grid cells.
+ */
+export function measurePlateViolations(
+  model: PlacementModel,
+  placement: GridPlacement,
+): PlateConstraintViolations {
+  const rectByKey = new Map(placement.plates.map((plate) => [plate.key, plate.rect]));
+  const violations: PlateConstraintViolations = { containment: 0, disjoint: 0 };
+
+  for (const plate of model.plates) {
+    const rect = rectByKey.get(plate.key);
+    if (!rect) {
+      continue;
+    }
+
+    model.elements.forEach((element, index) => {
+      if (!plate.dims.every((dim) => element.dims.includes(dim))) {
+        violations.containment += overlapArea(placement.elements[index].rect, rect);
+      }
+    });
+  }
+
+  for (let i = 0; i < model.plates.length; i += 1) {
+    for (let j = i + 1; j < model.plates.length; j += 1) {
+      const a = model.plates[i];
+      const b = model.plates[j];
+      const related =
+        a.innerPlateKeys.includes(b.key) ||
+        b.innerPlateKeys.includes(a.key) ||
+        a.intersectingKeys.includes(b.key);
+      const rectA = rectByKey.get(a.key);
+      const rectB = rectByKey.get(b.key);
+
+      if (!related && rectA && rectB) {
+        violations.disjoint += overlapArea(rectA, rectB);
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Summed violation of the rules in `hard` mode; 0 means the placement is feasible.
+ */
+export function hardPlateViolation(
+  violations: PlateConstraintViolations,
+  config: PlateConstraintConfig = {},
+): number {
+  return PLATE_CONSTRAINT_RULES.filter((rule) => modeFor(config, rule) === "hard").reduce(
+    (acc, rule) => acc + violations[rule],
+    0,
+  );
+}
+
+/**
+ * Weighted penalty components for the rules in `penalty` mode, keyed by {@link PLATE_PENALTY_TERMS}.
+ */
+export function platePenaltyComponents(
+  violations: PlateConstraintViolations,
+  config: PlateConstraintConfig = {},
+): Record<string, number> {
+  const components: Record<string, number> = {};
+
+  for (const rule of PLATE_CONSTRAINT_RULES) {
+    if (modeFor(config, rule) === "penalty") {
+      components[PLATE_PENALTY_TERMS[rule]] =
+        violations[rule] * (config.weights?.[rule] ?? DEFAULT_PENALTY_WEIGHT);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Add plate constraints to a placement problem: `hard` rules become the engine's
+ * `hardConstraintViolation`, `penalty` rules are added to every cost evaluation. With any
+ * `hard` rule, an infeasible initial layout is replaced by a deterministic repair of it.
+ */
+export function withPlateConstraints(
+  problem: AnnealProblem,
+  model: PlacementModel,
+  config: PlateConstraintConfig = {},
+): AnnealProblem {
+  const hasHard = PLATE_CONSTRAINT_RULES.some((rule) => modeFor(config, rule) === "hard");
+  const hasPenalty = PLATE_CONSTRAINT_RULES.some((rule) => modeFor(config, rule) === "penalty");
+
+  const constrained: AnnealProblem = {
+    ...problem,
+    evaluateCost: hasPenalty
+      ? (layout) => {
+          const base = problem.evaluateCost(layout);
+          const penalties = platePenaltyComponents(
+            measurePlateViolations(model, decodePlacement(model, layout)),
+            config,
+          );
+          const extra = Object.values(penalties).reduce((acc, value) => acc + value, 0);
+          return {
+            total: base.total + extra,
+            components: { ...base.components, ...penalties },
+          };
+        }
+      : problem.evaluateCost,
+    hardConstraintViolation: hasHard
+      ? (layout) =>
+          hardPlateViolation(measurePlateViolations(model, decodePlacement(model, layout)), config)
+      : problem.hardConstraintViolation,
+  };
+
+  return hasHard ? { ...constrained, initialLayout: repairLayout(constrained, REPAIR_SEED) } : constrained;
+}
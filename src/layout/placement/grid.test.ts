@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { initializeAnneal, runAnneal } from "../anneal/engine";
+import { buildDefaultFixtureConfig, buildDefaultFixtureGraphIR } from "../fixtures/defaultPlateGraph";
+import type { GridRect } from "../routing/draftRouter";
+import {
+  buildPlacementAnnealProblem,
+  buildPlacementModel,
+  decodePlacement,
+  encodePlacement,
+  initialGridPlacement,
+  type GridPlacement,
+} from "./grid";
+
+const model = buildPlacementModel(buildDefaultFixtureGraphIR(), {
+  cardinalities: buildDefaultFixtureConfig().cardinalities,
+});
+
+function overlaps(a: GridRect, b: GridRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+test("encodePlacement and decodePlacement round-trip element positions", () => {
+  const layout = initialGridPlacement(model);
+  const placement = decodePlacement(model, layout);
+
+  assert.deepEqual(encodePlacement(placement.elements.map(({ rect }) => ({ x: rect.x, y: rect.y }))), layout);
+  assert.deepEqual(
+    placement.elements.map(({ rect }) => [rect.width, rect.height]),
+    model.elements.map(({ sizeCells }) => [sizeCells, sizeCells]),
+  );
+  assert.deepEqual(decodePlacement(model, layout.map((value) => value + 0.4)), placement);
+});
+
+test("initialGridPlacement layers elements below their parents without overlaps", () => {
+  const layout = initialGridPlacement(model);
+  const { elements } = decodePlacement(model, layout);
+
+  assert.deepEqual(initialGridPlacement(model), layout);
+  for (const edge of model.edges.filter((candidate) => candidate.directed)) {
+    assert.ok(elements[edge.target].rect.y > elements[edge.source].rect.y, edge.id);
+  }
+  elements.forEach((a, i) =>
+    elements.slice(i + 1).forEach((b) => assert.ok(!overlaps(a.rect, b.rect), `${a.id} overlaps ${b.id}`)),
+  );
+});
+
+test("buildPlacementAnnealProblem scores decoded placements and keeps engine options", () => {
+  const scored: GridPlacement[] = [];
+  const area = (placement: GridPlacement) => {
+    scored.push(placement);
+    const total = placement.bounds.width * placement.bounds.height;
+    return { total, components: { area: total } };
+  };
+  const problem = buildPlacementAnnealProblem(model, area, { maxNudgeStep: 2 });
+
+  assert.deepEqual(problem.initialLayout, initialGridPlacement(model));
+  assert.equal(problem.maxNudgeStep, 2);
+  assert.deepEqual(problem.evaluateCost(problem.initialLayout), area(decodePlacement(model, problem.initialLayout)));
+  assert.deepEqual(scored[0], decodePlacement(model, problem.initialLayout));
+
+  const initial = problem.evaluateCost(problem.initialLayout).total;
+  const state = runAnneal(initializeAnneal({ ...problem, initialTemperature: 1 }, 5), 400);
+  assert.ok(state.best.costBreakdown.total < initial);
+  assert.deepEqual(buildPlacementAnnealProblem(model, area, { initialLayout: [1, 2] }).initialLayout, [1, 2]);
+});
@@ -0,0 +1,410 @@
+import type { AnnealProblem, CostBreakdown } from "../anneal/engine";
+import { plateKeyForDims, templateEdgeIds, type DimDecl, type GraphIR } from "../ir";
+import type { DiagramLayout } from "../render/diagram";
+import type { DraftRouterInput, GridPoint, GridRect, RoutedEdge } from "../routing/draftRouter";
+
+export type PlacementLevel = "template" | "instance";
+
+export interface PlacementElement {
+  id: string;
+  templateId: string;
+  type: string;
+  /** Dims of the element's template, in declared order. */
+  dims: string[];
+  symbol?: string;
+  /** Key of the plate the element belongs to (`""` for unplated elements). */
+  plateKey: string;
+  /** Square footprint edge length in grid cells. */
+  sizeCells: number;
+}
+
+export interface PlacementEdge {
+  id: string;
+  source: number;
+  target: number;
+  directed: boolean;
+}
+
+export interface PlacementPlate {
+  key: string;
+  dims: string[];
+  parentKey: string | null;
+  depth: number;
+  /** Elements whose plate is exactly this one. */
+  memberIndices: number[];
+  /** Plates drawn inside this one (every used plate with a strict superset of dims). */
+  innerPlateKeys: string[];
+  /** Plates that must partially overlap this one (see `inferPlateTree`). */
+  intersectingKeys: string[];
+}
+
+/**
+ * Static description of what gets placed: elements, the edges between them and the plates
+ * that are derived from element positions.
+ */
+export interface PlacementModel {
+  level: PlacementLevel;
+  dims: DimDecl[];
+  cardinalities?: Readonly<Record<string, number>>;
+  elements: PlacementElement[];
+  edges: PlacementEdge[];
+  /** Drawable plates (the root plate with no dims is omitted), innermost first. */
+  plates: PlacementPlate[];
+  /** Empty cells kept between a plate border and its contents. */
+  platePadding: number;
+}
+
+export interface PlacedElement {
+  id: string;
+  rect: GridRect;
+}
+
+export interface PlacedPlate {
+  key: string;
+  dims: string[];
+  rect: GridRect;
+}
+
+export interface GridPlacement {
+  elements: PlacedElement[];
+  plates: PlacedPlate[];
+  /** Bounding box of every element and plate. */
+  bounds: GridRect;
+}
+
+export interface PlacementModelOptions {
+  level?: PlacementLevel;
+  platePadding?: number;
+  cardinalities?: Readonly<Record<string, number>>;
+}
+
+export interface InitialPlacementOptions {
+  /** Empty cells between neighbouring elements. */
+  gap?: number;
+}
+
+const DEFAULT_PLATE_PADDING = 1;
+const DEFAULT_GAP = 1;
+
+function isStrictSuperset(outer: readonly string[], inner: readonly string[]): boolean {
+  return outer.length > inner.length && inner.every((dim) => outer.includes(dim));
+}
+
+/**
+ * Build a placement model from a {@link GraphIR}, either one element per template or one
+ * per expanded instance. Template footprints use the size of their instances.
+ */
+export function buildPlacementModel(ir: GraphIR, options: PlacementModelOptions = {}): PlacementModel {
+  const level = options.level ?? "template";
+  const templatesById = new Map(ir.templateGraph.nodes.map((node) => [node.id, node]));
+  const plateKeyByTemplate = new Map(
+    ir.templateGraph.nodes.map((node) => [node.id, plateKeyForDims(node.dims)]),
+  );
+
+  const sizeByTemplate = new Map<string, number>();
+  for (const instance of ir.instanceGraph.nodes) {
+    if (!sizeByTemplate.has(instance.templateId)) {
+      sizeByTemplate.set(instance.templateId, instance.sizeCells);
+    }
+  }
+
+  const elementFor = (id: string, templateId: string, sizeCells: number): PlacementElement => {
+    const template = templatesById.get(templateId);
+    return {
+      id,
+      templateId,
+      type: template?.type ?? "latent",
+      dims: [...(template?.dims ?? [])],
+      symbol: template?.symbol,
+      plateKey: plateKeyByTemplate.get(templateId) ?? "",
+      sizeCells: Math.max(1, sizeCells),
+    };
+  };
+
+  const elements =
+    level === "template"
+      ? ir.templateGraph.nodes.map((node) => elementFor(node.id, node.id, sizeByTemplate.get(node.id) ?? 1))
+      : ir.instanceGraph.nodes.map((node) => elementFor(node.instanceId, node.templateId, node.sizeCells));
+  const indexById = new Map(elements.map((element, index) => [element.id, index]));
+
+  const edgeIds = templateEdgeIds(ir.templateGraph.edges);
+  const directedByEdgeId = new Map(
+    ir.templateGraph.edges.map((edge, index) => [edgeIds[index], edge.directed !== false]),
+  );
+
+  const edges: PlacementEdge[] =
+    level === "template"
+      ? ir.templateGraph.edges.map((edge, index) => ({
+          id: edgeIds[index],
+          source: indexById.get(edge.sourceTemplateId) ?? -1,
+          target: indexById.get(edge.targetTemplateId) ?? -1,
+          directed: edge.directed !== false,
+        }))
+      : ir.instanceGraph.edges.map((edge) => ({
+          id: `${edge.sourceInstanceId}->${edge.targetInstanceId}`,
+          source: indexById.get(edge.sourceInstanceId) ?? -1,
+          target: indexById.get(edge.targetInstanceId) ?? -1,
+          directed: directedByEdgeId.get(edge.templateEdgeId) ?? true,
+        }));
+
+  const plates: PlacementPlate[] = ir.plateHierarchies
+    .filter((plate) => plate.dims.length > 0)
+    .map((plate) => ({
+      key: plate.key,
+      dims: [...plate.dims],
+      parentKey: plate.parentKey,
+      depth: plate.depth,
+      memberIndices: elements
+        .map((element, index) => (element.plateKey === plate.key ? index : -1))
+        .filter((index) => index !== -1),
+      innerPlateKeys: ir.plateHierarchies
+        .filter((other) => isStrictSuperset(other.dims, plate.dims))
+        .map((other) => other.key),
+      intersectingKeys: [...plate.intersectingKeys],
+    }))
+    .sort((a, b) => b.dims.length - a.dims.length || a.key.localeCompare(b.key));
+
+  return {
+    level,
+    dims: ir.templateGraph.dims.map((dim) => ({ ...dim })),
+    cardinalities: options.cardinalities,
+    elements,
+    edges: edges.filter((edge) => edge.source !== -1 && edge.target !== -1),
+    plates,
+    platePadding: Math.max(0, Math.floor(options.platePadding ?? DEFAULT_PLATE_PADDING)),
+  };
+}
+
+/**
+ * Flatten element top-left cells into the engine's `number[]` layout: `[x0, y0, x1, y1, ...]`.
+ */
+export function encodePlacement(positions: readonly GridPoint[]): number[] {
+  return positions.flatMap((point) => [point.x, point.y]);
+}
+
+function boundingRect(rects: readonly GridRect[]): GridRect | undefined {
+  if (rects.length === 0) {
+    return undefined;
+  }
+
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+
+  for (const rect of rects) {
+    minX = Math.min(minX, rect.x);
+    minY = Math.min(minY, rect.y);
+    maxX = Math.max(maxX, rect.x + rect.width);
+    maxY = Math.max(maxY, rect.y + rect.height);
+  }
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function padRect(rect: GridRect, padding: number): GridRect {
+  return {
+    x: rect.x - padding,
+    y: rect.y - padding,
+    width: rect.width + padding * 2,
+    height: rect.height + padding * 2,
+  };
+}
+
+/**
+ * Decode an engine layout into element rectangles and derived plate rectangles.
+ * Each plate is the padded bounding box of its own members and of every plate inside it.
+ */
+export function decodePlacement(model: PlacementModel, layout: readonly number[]): GridPlacement {
+  const elements = model.elements.map((element, index) => ({
+    id: element.id,
+    rect: {
+      x: Math.round(layout[index * 2] ?? 0),
+      y: Math.round(layout[index * 2 + 1] ?? 0),
+      width: element.sizeCells,
+      height: element.sizeCells,
+    },
+  }));
+
+  const plateRects = new Map<string, GridRect>();
+  const plates: PlacedPlate[] = [];
+
+  for (const plate of model.plates) {
+    const contents = [
+      ...plate.memberIndices.map((index) => elements[index].rect),
+      ...plate.innerPlateKeys
+        .map((key) => plateRects.get(key))
+        .filter((rect): rect is GridRect => rect !== undefined),
+    ];
+    const bbox = boundingRect(contents);
+    if (!bbox) {
+      continue;
+    }
+
+    const rect = padRect(bbox, model.platePadding);
+    plateRects.set(plate.key, rect);
+    plates.push({ key: plate.key, dims: [...plate.dims], rect });
+  }
+
+  const bounds = boundingRect([...elements.map((e) => e.rect), ...plates.map((p) => p.rect)]) ?? {
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+  };
+
+  return { elements, plates, bounds };
+}
+
+/**
+ * Deterministic starting placement: elements are layered top-to-bottom by longest path
+ * from the sources, and ordered within a layer by plate key then id so plate members sit
+ * together. Plate padding is included in the spacing so nested plates do not collide.
+ */
+export function initialGridPlacement(
+  model: PlacementModel,
+  options: InitialPlacementOptions = {},
+): number[] {
+  const gap = Math.max(0, Math.floor(options.gap ?? DEFAULT_GAP));
+  const layer = new Array<number>(model.elements.length).fill(0);
+
+  for (let pass = 0; pass < model.elements.length; pass += 1) {
+    let changed = false;
+    for (const edge of model.edges) {
+      if (edge.directed && edge.source !== edge.target && layer[edge.target] < layer[edge.source] + 1) {
+        layer[edge.target] = layer[edge.source] + 1;
+        changed = true;
+      }
+    }
+    if (!changed) {
+      break;
+    }
+  }
+
+  const maxDepth = model.plates.reduce((acc, plate) => Math.max(acc, plate.depth), 0);
+  const spacing = gap + model.platePadding * 2 * maxDepth;
+  const layers = new Map<number, number[]>();
+  layer.forEach((value, index) => {
+    layers.set(value, [...(layers.get(value) ?? []), index]);
+  });
+
+  const positions: GridPoint[] = model.elements.map(() => ({ x: 0, y: 0 }));
+  let y = model.platePadding * maxDepth;
+
+  for (const value of [...layers.keys()].sort((a, b) => a - b)) {
+    const members = (layers.get(value) ?? []).sort((a, b) => {
+      const ea = model.elements[a];
+      const eb = model.elements[b];
+      return ea.plateKey.localeCompare(eb.plateKey) || ea.id.localeCompare(eb.id);
+    });
+
+    let x = model.platePadding * maxDepth;
+    let rowHeight = 0;
+    for (const index of members) {
+      positions[index] = { x, y };
+      x += model.elements[index].sizeCells + spacing;
+      rowHeight = Math.max(rowHeight, model.elements[index].sizeCells);
+    }
+
+    y += rowHeight + spacing;
+  }
+
+  return encodePlacement(positions);
+}
+
+export function elementCenter(placement: GridPlacement, index: number): GridPoint {
+  const rect = placement.elements[index].rect;
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+/**
+ * Draft-router input for a placement: each edge leaves the bottom-centre of its source
+ * footprint and enters the top-centre of its target, with footprints as obstacles.
+ * Obstacle padding defaults to 0 so the border ports stay reachable.
+ */
+export function draftRouterInputForPlacement(
+  model: PlacementModel,
+  placement: GridPlacement,
+  overrides: Omit<DraftRouterInput, "edges" | "obstacles"> = {},
+): DraftRouterInput {
+  return {
+    obstaclePadding: 0,
+    ...overrides,
+    edges: model.edges.map((edge) => {
+      const source = placement.elements[edge.source].rect;
+      const target = placement.elements[edge.target].rect;
+      return {
+        id: edge.id,
+        source: { x: source.x + Math.floor(source.width / 2), y: source.y + source.height },
+        target: { x: target.x + Math.floor(target.width / 2), y: target.y },
+      };
+    }),
+    obstacles: placement.elements.map((element) => element.rect),
+  };
+}
+
+/**
+ * Combine a placement and its routes into a renderer-ready {@link DiagramLayout}.
+ * Nested plates are captioned with only the dims they add over their parent.
+ */
+export function placementToDiagram(
+  model: PlacementModel,
+  placement: GridPlacement,
+  routes: readonly RoutedEdge[] = [],
+): DiagramLayout {
+  const platesByKey = new Map(model.plates.map((plate) => [plate.key, plate]));
+  const edgesById = new Map(model.edges.map((edge) => [edge.id, edge]));
+
+  return {
+    dims: model.dims.map((dim) => ({ ...dim })),
+    cardinalities: model.cardinalities,
+    nodes: model.elements.map((element, index) => ({
+      id: element.id,
+      type: element.type,
+      dims: [...element.dims],
+      symbol: element.symbol,
+      rect: { ...placement.elements[index].rect },
+    })),
+    plates: placement.plates.map((plate) => {
+      const parentKey = platesByKey.get(plate.key)?.parentKey ?? null;
+      const parentDims = parentKey ? platesByKey.get(parentKey)?.dims ?? [] : [];
+      return {
+        key: plate.key,
+        dims: [...plate.dims],
+        rect: { ...plate.rect },
+        labelDims: plate.dims.filter((dim) => !parentDims.includes(dim)),
+      };
+    }),
+    edges: routes.map((route) => {
+      const edge = edgesById.get(route.id);
+      return {
+        id: route.id,
+        points: route.points.map((point) => ({ ...point })),
+        sourceId: edge ? model.elements[edge.source].id : undefined,
+        targetId: edge ? model.elements[edge.target].id : undefined,
+        directed: edge?.directed,
+      };
+    }),
+  };
+}
+
+export interface PlacementAnnealOptions
+  extends Omit<AnnealProblem, "initialLayout" | "evaluateCost"> {
+  initialLayout?: number[];
+}
+
+/**
+ * Wrap a placement model as an {@link AnnealProblem}. The engine optimises the flat
+ * `[x0, y0, ...]` layout; `evaluatePlacement` scores the decoded grid placement.
+ */
+export function buildPlacementAnnealProblem(
+  model: PlacementModel,
+  evaluatePlacement: (placement: GridPlacement) => CostBreakdown,
+  options: PlacementAnnealOptions = {},
+): AnnealProblem {
+  return {
+    ...options,
+    initialLayout: options.initialLayout ?? initialGridPlacement(model),
+    evaluateCost: (layout) => evaluatePlacement(decodePlacement(model, layout)),
+  };
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createRng, type CustomAnnealMove } from "../anneal/engine";
+import {
+  buildPlacementAnnealProblem,
+  decodePlacement,
+  type PlacementElement,
+  type PlacementModel,
+  type PlacementPlate,
+} from "./grid";
+import { plateMoveKinds } from "./moves";
+
+function element(id: string, plateKey: string): PlacementElement {
+  return { id, templateId: id, type: "latent", dims: plateKey === "" ? [] : [plateKey], plateKey, sizeCells: 1 };
+}
+
+function plate(key: string, memberIndices: number[]): PlacementPlate {
+  return { key, dims: [key], parentKey: null, depth: 0, memberIndices, innerPlateKeys: [], intersectingKeys: [] };
+}
+
+/** Plate `a` holds one element, sibling plate `b` two, plus one unplated element. */
+const MODEL: PlacementModel = {
+  level: "template",
+  dims: [{ id: "a" }, { id: "b" }],
+  elements: [element("x", "a"), element("y", "b"), element("z", "b"), element("free", "")],
+  edges: [],
+  plates: [plate("a", [0]), plate("b", [1, 2])],
+  platePadding: 1,
+};
+
+const plateSwap = plateMoveKinds(MODEL).find((kind) => kind.name === "plateSwap");
+const problem = buildPlacementAnnealProblem(MODEL, () => ({ total: 0, components: {} }));
+
+function centres(layout: readonly number[]): Record<string, [number, number]> {
+  return Object.fromEntries(
+    decodePlacement(MODEL, layout).plates.map(({ key, rect }) => [
+      key,
+      [rect.x + rect.width / 2, rect.y + rect.height / 2],
+    ]),
+  );
+}
+
+test("plateSwap exchanges plate centres so plates of different sizes stay apart", () => {
+  const layout = [0, 0, 10, 0, 12, 0, 6, 8];
+  const move = plateSwap?.propose(layout, problem, createRng(1)) as CustomAnnealMove;
+  assert.deepEqual(move.params, { a: 0, b: 1 });
+
+  const next = plateSwap?.apply?.(layout, move) ?? [];
+  const [rectA, rectB] = decodePlacement(MODEL, next).plates.map((placed) => placed.rect);
+
+  assert.deepEqual(centres(next), { a: centres(layout).b, b: centres(layout).a });
+  assert.ok(rectB.x + rectB.width <= rectA.x);
+  assert.deepEqual(next.slice(6), [6, 8]);
+});
+
+test("plateSwap skips siblings whose swapped footprint would cover another element", () => {
+  const move = plateSwap?.propose([0, 0, 10, 0, 12, 0, -2, 0], problem, createRng(1)) as CustomAnnealMove;
+
+  assert.deepEqual(move.params, {});
+});
@@ -0,0 +1,249 @@
+import { randInt, type AnnealMoveKind, type AnnealRngState, type CustomAnnealMove } from "../anneal/engine";
+import type { GridRect } from "../routing/draftRouter";
+import { decodePlacement, type PlacementModel } from "./grid";
+
+export interface PlateMoveOptions {
+  /** Largest per-axis step for `plateShift`, in grid cells. */
+  maxShift?: number;
+  weights?: Partial<Record<PlateMoveName, number>>;
+}
+
+/**
+ * - `plateShift`: translate a plate with everything drawn inside it.
+ * - `plateSwap`: exchange the centres of two sibling plates that share no elements, when
+ *   both footprints fit in their new place.
+ * - `slotMove`: move one element to another cell inside its own plate, swapping with the
+ *   member already there.
+ */
+export type PlateMoveName = "plateShift" | "plateSwap" | "slotMove";
+
+const DEFAULT_MAX_SHIFT = 2;
+
+function noOp(name: PlateMoveName, rng: AnnealRngState): CustomAnnealMove {
+  return { type: "custom", name, params: {}, rngStateAfterProposal: rng };
+}
+
+function translate(layout: number[], indices: readonly number[], dx: number, dy: number): void {
+  for (const index of indices) {
+    layout[index * 2] += dx;
+    layout[index * 2 + 1] += dy;
+  }
+}
+
+function rectsOverlap(a: GridRect, b: GridRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function shiftRect(rect: GridRect, dx: number, dy: number): GridRect {
+  return { ...rect, x: rect.x + dx, y: rect.y + dy };
+}
+
+/** Whole-cell offset that moves the centre of `from` onto the centre of `to`. */
+function centreOffset(from: GridRect, to: GridRect): [number, number] {
+  return [
+    Math.round(to.x + to.width / 2 - (from.x + from.width / 2)),
+    Math.round(to.y + to.height / 2 - (from.y + from.height / 2)),
+  ];
+}
+
+/**
+ * Element indices drawn inside each plate: its own members plus those of its inner plates.
+ */
+function plateContents(model: PlacementModel): number[][] {
+  const membersByKey = new Map(model.plates.map((plate) => [plate.key, plate.memberIndices]));
+  return model.plates.map((plate) =>
+    [
+      ...new Set([
+        ...plate.memberIndices,
+        ...plate.innerPlateKeys.flatMap((key) => membersByKey.get(key) ?? []),
+      ]),
+    ].sort((a, b) => a - b),
+  );
+}
+
+/**
+ * Plate-aware move kinds for a grid placement layout (`[x0, y0, x1, y1, ...]`), ready for
+ * `registerMoveKinds`. Kinds with nothing to move for this model propose a no-op.
+ */
+export function plateMoveKinds(model: PlacementModel, options: PlateMoveOptions = {}): AnnealMoveKind[] {
+  const contents = plateContents(model);
+  const maxShift = Math.max(1, Math.floor(options.maxShift ?? DEFAULT_MAX_SHIFT));
+  const weight = (name: PlateMoveName) => options.weights?.[name] ?? 1;
+
+  const siblingPairs: [number, number][] = [];
+  for (let i = 0; i < model.plates.length; i += 1) {
+    for (let j = i + 1; j < model.plates.length; j += 1) {
+      const shared = contents[i].some((index) => contents[j].includes(index));
+      if (model.plates[i].parentKey === model.plates[j].parentKey && !shared) {
+        siblingPairs.push([i, j]);
+      }
+    }
+  }
+
+  const slotted = model.elements
+    .map((element, index) => (element.plateKey === "" ? -1 : index))
+    .filter((index) => index !== -1);
+
+  const plateShift: AnnealMoveKind = {
+    name: "plateShift",
+    weight: weight("plateShift"),
+    propose: (_layout, _problem, rngState) => {
+      if (model.plates.length === 0) {
+        return noOp("plateShift", rngState);
+      }
+
+      let rng = rngState;
+      let plate;
+      [plate, rng] = randInt(model.plates.length, rng);
+      let dx;
+      [dx, rng] = randInt(maxShift * 2 + 1, rng);
+      let dy;
+      [dy, rng] = randInt(maxShift * 2 + 1, rng);
+
+      return {
+        type: "custom",
+        name: "plateShift",
+        params: { plate, dx: dx - maxShift, dy: dy - maxShift },
+        rngStateAfterProposal: rng,
+      };
+    },
+    apply: (layout, move) => {
+      const next = [...layout];
+      const { plate, dx, dy } = move.params;
+      if (plate !== undefined) {
+        translate(next, contents[plate] ?? [], dx, dy);
+      }
+      return next;
+    },
+  };
+
+  /**
+   * Sibling pairs whose plates, swapped centre for centre, land clear of each other and of
+   * every element and plate that is neither inside, around nor intersecting either of them.
+   */
+  const swappablePairs = (layout: readonly number[]): [number, number][] => {
+    const placement = decodePlacement(model, layout);
+    const rects = new Map(placement.plates.map((plate) => [plate.key, plate.rect]));
+    return siblingPairs.filter(([a, b]) => {
+      const rectA = rects.get(model.plates[a].key);
+      const rectB = rects.get(model.plates[b].key);
+      if (!rectA || !rectB) {
+        return false;
+      }
+
+      const [dx, dy] = centreOffset(rectA, rectB);
+      const swapped = [shiftRect(rectA, dx, dy), shiftRect(rectB, -dx, -dy)];
+      const related = (key: string) =>
+        [model.plates[a], model.plates[b]].some(
+          (plate) =>
+            plate.key === key ||
+            plate.innerPlateKeys.includes(key) ||
+            plate.intersectingKeys.includes(key) ||
+            model.plates.some((outer) => outer.key === key && outer.innerPlateKeys.includes(plate.key)),
+        );
+      const obstacles = [
+        ...placement.elements
+          .filter((_, index) => !contents[a].includes(index) && !contents[b].includes(index))
+          .map((element) => element.rect),
+        ...placement.plates.filter((plate) => !related(plate.key)).map((plate) => plate.rect),
+      ];
+
+      return (
+        !rectsOverlap(swapped[0], swapped[1]) &&
+        swapped.every((rect) => obstacles.every((obstacle) => !rectsOverlap(rect, obstacle)))
+      );
+    });
+  };
+
+  const plateSwap: AnnealMoveKind = {
+    name: "plateSwap",
+    weight: weight("plateSwap"),
+    propose: (layout, _problem, rngState) => {
+      const pairs = siblingPairs.length === 0 ? [] : swappablePairs(layout);
+      if (pairs.length === 0) {
+        return noOp("plateSwap", rngState);
+      }
+
+      const [pair, rng] = randInt(pairs.length, rngState);
+      const [a, b] = pairs[pair];
+      return { type: "custom", name: "plateSwap", params: { a, b }, rngStateAfterProposal: rng };
+    },
+    apply: (layout, move) => {
+      const next = [...layout];
+      const { a, b } = move.params;
+      if (a === undefined || b === undefined) {
+        return next;
+      }
+
+      const rects = new Map(decodePlacement(model, layout).plates.map((plate) => [plate.key, plate.rect]));
+      const rectA = rects.get(model.plates[a].key);
+      const rectB = rects.get(model.plates[b].key);
+      if (!rectA || !rectB) {
+        return next;
+      }
+
+      const [dx, dy] = centreOffset(rectA, rectB);
+      translate(next, contents[a], dx, dy);
+      translate(next, contents[b], -dx, -dy);
+      return next;
+    },
+  };
+
+  const slotMove: AnnealMoveKind = {
+    name: "slotMove",
+    weight: weight("slotMove"),
+    propose: (layout, _problem, rngState) => {
+      if (slotted.length === 0) {
+        return noOp("slotMove", rngState);
+      }
+
+      let rng = rngState;
+      let pick;
+      [pick, rng] = randInt(slotted.length, rng);
+      const element = slotted[pick];
+      const { plateKey, sizeCells } = model.elements[element];
+      const rect = decodePlacement(model, layout).plates.find((plate) => plate.key === plateKey)?.rect;
+      if (!rect) {
+        return noOp("slotMove", rng);
+      }
+
+      const inner = model.platePadding;
+      let x;
+      [x, rng] = randInt(Math.max(1, rect.width - inner * 2 - sizeCells + 1), rng);
+      let y;
+      [y, rng] = randInt(Math.max(1, rect.height - inner * 2 - sizeCells + 1), rng);
+
+      return {
+        type: "custom",
+        name: "slotMove",
+        params: { element, x: rect.x + inner + x, y: rect.y + inner + y },
+        rngStateAfterProposal: rng,
+      };
+    },
+    apply: (layout, move) => {
+      const next = [...layout];
+      const { element, x, y } = move.params;
+      if (element === undefined) {
+        return next;
+      }
+
+      const plateKey = model.elements[element].plateKey;
+      const occupant = model.elements.findIndex(
+        (other, index) =>
+          index !== element &&
+          other.plateKey === plateKey &&
+          Math.round(next[index * 2]) === x &&
+          Math.round(next[index * 2 + 1]) === y,
+      );
+      if (occupant !== -1) {
+        next[occupant * 2] = next[element * 2];
+        next[occupant * 2 + 1] = next[element * 2 + 1];
+      }
+      next[element * 2] = x;
+      next[element * 2 + 1] = y;
+      return next;
+    },
+  };
+
+  return [plateShift, plateSwap, slotMove];
+}
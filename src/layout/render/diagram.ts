@@ -0,0 +1,76 @@
+import type { DimDecl } from "../ir";
+import type { GridPoint, GridRect, RoutedEdge } from "../routing/draftRouter";
+
+export interface DiagramNode {
+  id: string;
+  /** `NodeTemplate.type`; drives the drawing convention. */
+  type: string;
+  dims: string[];
+  symbol?: string;
+  rect: GridRect;
+}
+
+export interface DiagramPlate {
+  key: string;
+  dims: string[];
+  rect: GridRect;
+  /**
+   * Dims named in the plate label. Defaults to `dims`; pass the dims a plate adds over its
+   * parent to label nested plates with only their own index.
+   */
+  labelDims?: string[];
+}
+
+export interface DiagramEdge extends RoutedEdge {
+  sourceId?: string;
+  targetId?: string;
+  directed?: boolean;
+}
+
+/**
+ * A finished layout in grid units, ready for any renderer.
+ */
+export interface DiagramLayout {
+  dims: DimDecl[];
+  cardinalities?: Readonly<Record<string, number>>;
+  nodes: DiagramNode[];
+  plates: DiagramPlate[];
+  edges: DiagramEdge[];
+}
+
+export function rectCenter(rect: GridRect): GridPoint {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+export function rectContains(rect: GridRect, point: GridPoint): boolean {
+  return (
+    point.x >= rect.x &&
+    point.x <= rect.x + rect.width &&
+    point.y >= rect.y &&
+    point.y <= rect.y + rect.height
+  );
+}
+
+/**
+ * Plates ordered for painting: larger (outer) plates first, ties by key.
+ */
+export function platesInPaintOrder(plates: readonly DiagramPlate[]): DiagramPlate[] {
+  return [...plates].sort(
+    (a, b) => b.rect.width * b.rect.height - a.rect.width * a.rect.height || a.key.localeCompare(b.key),
+  );
+}
+
+/**
+ * Plate caption parts, one per labelled dim, e.g. `{ label: "Condition", cardinality: 2 }`.
+ */
+export function plateLabelParts(
+  plate: DiagramPlate,
+  layout: Pick<DiagramLayout, "dims" | "cardinalities">,
+): { dim: string; label: string; cardinality?: number }[] {
+  const decls = new Map(layout.dims.map((dim) => [dim.id, dim]));
+  return (plate.labelDims ?? plate.dims).map((dim) => ({
+    dim,
+    label: decls.get(dim)?.label ?? dim,
+    cardinality: layout.cardinalities?.[dim],
+  }));
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import type { DiagramLayout } from "./diagram";
+import { renderSvg } from "./svg";
+
+const LAYOUT: DiagramLayout = {
+  dims: [{ id: "c", label: "Condition" }, { id: "p" }],
+  cardinalities: { c: 2, p: 3 },
+  nodes: [
+    { id: "alpha", type: "source", dims: [], rect: { x: 1, y: 0, width: 2, height: 2 } },
+    { id: "r_c", type: "latent", dims: ["c"], symbol: "r", rect: { x: 1, y: 4, width: 2, height: 2 } },
+    { id: "mu_cp", type: "deterministic", dims: ["c", "p"], symbol: "mu", rect: { x: 1, y: 8, width: 2, height: 2 } },
+    { id: "y_cp", type: "observed", dims: ["c", "p"], symbol: "y", rect: { x: 5, y: 8, width: 2, height: 2 } },
+  ],
+  plates: [
+    { key: "c", dims: ["c"], rect: { x: 0, y: 3, width: 9, height: 9 } },
+    { key: "c|p", dims: ["c", "p"], rect: { x: 0.5, y: 7, width: 8, height: 4.5 }, labelDims: ["p"] },
+  ],
+  edges: [
+    { id: "alpha->r_c", sourceId: "alpha", targetId: "r_c", points: [{ x: 2, y: 1 }, { x: 2, y: 5 }] },
+    { id: "r_c->mu_cp", sourceId: "r_c", targetId: "mu_cp", points: [{ x: 2, y: 5 }, { x: 2, y: 9 }] },
+    { id: "r_c->y_cp", sourceId: "r_c", targetId: "y_cp", points: [{ x: 2, y: 5 }, { x: 6, y: 5 }, { x: 6, y: 9 }] },
+    { id: "mu_cp--y_cp", sourceId: "mu_cp", targetId: "y_cp", directed: false, points: [{ x: 2, y: 9 }, { x: 6, y: 9 }] },
+  ],
+};
+
+const EXPECTED = [
+  "<svg xmlns=\"http://www.w3.org/2000/svg\" width=\"248\" height=\"320\" viewBox=\"0 0 248 320\" font-family=\"serif\" font-size=\"14\">",
+  "<defs>",
+  "<marker id=\"arrow\" viewBox=\"0 0 10 10\" refX=\"10\" refY=\"5\" markerWidth=\"8\" markerHeight=\"8\" orient=\"auto-start-reverse\"><path d=\"M0 0 L10 5 L0 10 z\" fill=\"#000000\"/></marker>",
+  "</defs>",
+  "<g class=\"plates\"><g class=\"plate\" data-key=\"c\"><rect x=\"16\" y=\"88\" width=\"216\" height=\"216\" rx=\"6\" fill=\"none\" stroke=\"#000000\"/><text x=\"228\" y=\"300\" text-anchor=\"end\" font-size=\"80%\">Condition (2)</text></g><g class=\"plate\" data-key=\"c|p\"><rect x=\"28\" y=\"184\" width=\"192\" height=\"108\" rx=\"6\" fill=\"none\" stroke=\"#000000\"/><text x=\"216\" y=\"288\" text-anchor=\"end\" font-size=\"80%\">p (3)</text></g></g>",
+  "<g class=\"edges\"><path class=\"edge\" data-id=\"alpha-&gt;r_c\" d=\"M64 43 L64 114\" fill=\"none\" stroke=\"#000000\" marker-end=\"url(#arrow)\"/><path class=\"edge\" data-id=\"mu_cp--y_cp\" d=\"M86 232 L138 232\" fill=\"none\" stroke=\"#000000\"/><path class=\"edge\" data-id=\"r_c-&gt;mu_cp\" d=\"M64 158 L64 210\" fill=\"none\" stroke=\"#000000\" marker-end=\"url(#arrow)\"/><path class=\"edge\" data-id=\"r_c-&gt;y_cp\" d=\"M86 136 L160 136 L160 210\" fill=\"none\" stroke=\"#000000\" marker-end=\"url(#arrow)\"/></g>",
+  "<g class=\"nodes\"><g class=\"node source\" data-id=\"alpha\"><circle cx=\"64\" cy=\"40\" r=\"3\" fill=\"#000000\"/><text x=\"71\" y=\"40\" text-anchor=\"start\" dominant-baseline=\"central\">alpha</text></g><g class=\"node deterministic\" data-id=\"mu_cp\"><polygon points=\"64,210 86,232 64,254 42,232\" fill=\"#ffffff\" stroke=\"#000000\"/><text x=\"64\" y=\"232\" text-anchor=\"middle\" dominant-baseline=\"central\">mu<tspan baseline-shift=\"sub\" font-size=\"70%\">cp</tspan></text></g><g class=\"node latent\" data-id=\"r_c\"><circle cx=\"64\" cy=\"136\" r=\"22\" fill=\"#ffffff\" stroke=\"#000000\"/><text x=\"64\" y=\"136\" text-anchor=\"middle\" dominant-baseline=\"central\">r<tspan baseline-shift=\"sub\" font-size=\"70%\">c</tspan></text></g><g class=\"node observed\" data-id=\"y_cp\"><circle cx=\"160\" cy=\"232\" r=\"22\" fill=\"#d9d9d9\" stroke=\"#000000\"/><text x=\"160\" y=\"232\" text-anchor=\"middle\" dominant-baseline=\"central\">y<tspan baseline-shift=\"sub\" font-size=\"70%\">cp</tspan></text></g></g>",
+  "</svg>",
+].join("\n");
+
+test("renderSvg matches the golden drawing of a nested-plate diagram", () => {
+  assert.equal(renderSvg(LAYOUT), `${EXPECTED}\n`);
+});
@@ -0,0 +1,253 @@
+import type { GridPoint } from "../routing/draftRouter";
+import {
+  plateLabelParts,
+  platesInPaintOrder,
+  rectCenter,
+  rectContains,
+  type DiagramEdge,
+  type DiagramLayout,
+  type DiagramNode,
+} from "./diagram";
+
+export interface SvgRenderOptions {
+  /** Pixels per grid cell. */
+  cellSize?: number;
+  /** Blank border around the drawing, in pixels. */
+  margin?: number;
+  /** Drawing convention for `deterministic` nodes. */
+  deterministicStyle?: "diamond" | "doubleCircle";
+  fontFamily?: string;
+  fontSize?: number;
+}
+
+const DEFAULT_CELL_SIZE = 24;
+const DEFAULT_MARGIN = 16;
+const DEFAULT_FONT_FAMILY = "serif";
+const DEFAULT_FONT_SIZE = 14;
+const SOURCE_DOT_RADIUS = 3;
+const PLATE_CORNER_RADIUS = 6;
+const OBSERVED_FILL = "#d9d9d9";
+const STROKE = "#000000";
+
+/**
+ * Fixed-precision number formatting so output is byte-stable across runs.
+ */
+function fmt(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+function nodeRadius(node: DiagramNode, cellSize: number): number {
+  if (node.type === "source") {
+    return SOURCE_DOT_RADIUS;
+  }
+
+  return (Math.min(node.rect.width, node.rect.height) * cellSize) / 2 - 2;
+}
+
+function labelMarkup(node: DiagramNode): string {
+  const base = escapeXml(node.symbol ?? node.id);
+  if (!node.symbol || node.dims.length === 0) {
+    return base;
+  }
+
+  return `${base}<tspan baseline-shift="sub" font-size="70%">${escapeXml(node.dims.join(""))}</tspan>`;
+}
+
+function renderNode(node: DiagramNode, options: Required<SvgRenderOptions>): string {
+  const { x: cx, y: cy } = nodeCenterPx(node, options);
+  const r = nodeRadius(node, options.cellSize);
+  const id = escapeXml(node.id);
+  const text = (x: number, anchor: string) =>
+    `<text x="${fmt(x)}" y="${fmt(cy)}" text-anchor="${anchor}" dominant-baseline="central">${labelMarkup(node)}</text>`;
+
+  if (node.type === "source") {
+    return [
+      `<g class="node source" data-id="${id}">`,
+      `<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${fmt(r)}" fill="${STROKE}"/>`,
+      text(cx + r + 4, "start"),
+      "</g>",
+    ].join("");
+  }
+
+  if (node.type === "deterministic" && options.deterministicStyle === "diamond") {
+    const points = [
+      [cx, cy - r],
+      [cx + r, cy],
+      [cx, cy + r],
+      [cx - r, cy],
+    ]
+      .map(([x, y]) => `${fmt(x)},${fmt(y)}`)
+      .join(" ");
+    return [
+      `<g class="node deterministic" data-id="${id}">`,
+      `<polygon points="${points}" fill="#ffffff" stroke="${STROKE}"/>`,
+      text(cx, "middle"),
+      "</g>",
+    ].join("");
+  }
+
+  const fill = node.type === "observed" ? OBSERVED_FILL : "#ffffff";
+  const shapes = [`<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${fmt(r)}" fill="${fill}" stroke="${STROKE}"/>`];
+  if (node.type === "deterministic") {
+    shapes.push(`<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${fmt(Math.max(1, r - 3))}" fill="none" stroke="${STROKE}"/>`);
+  }
+
+  return [
+    `<g class="node ${escapeXml(node.type)}" data-id="${id}">`,
+    ...shapes,
+    text(cx, "middle"),
+    "</g>",
+  ].join("");
+}
+
+/**
+ * Pull an endpoint back along its segment to where the segment enters the node circle.
+ */
+function trimEndpoint(from: GridPoint, to: GridPoint, center: GridPoint, radius: number): GridPoint {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const fx = from.x - center.x;
+  const fy = from.y - center.y;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (fx * dx + fy * dy);
+  const c = fx * fx + fy * fy - radius * radius;
+  const discriminant = b * b - 4 * a * c;
+
+  if (a === 0 || c <= 0 || discriminant < 0) {
+    return to;
+  }
+
+  const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return t >= 0 && t <= 1 ? { x: from.x + dx * t, y: from.y + dy * t } : to;
+}
+
+function nodeCenterPx(node: DiagramNode, options: Required<SvgRenderOptions>): GridPoint {
+  const center = rectCenter(node.rect);
+  return {
+    x: center.x * options.cellSize + options.margin,
+    y: center.y * options.cellSize + options.margin,
+  };
+}
+
+function renderEdge(
+  edge: DiagramEdge,
+  nodesById: Map<string, DiagramNode>,
+  options: Required<SvgRenderOptions>,
+): string {
+  if (edge.points.length < 2) {
+    return "";
+  }
+
+  const points = edge.points.map((point) => ({
+    x: point.x * options.cellSize + options.margin,
+    y: point.y * options.cellSize + options.margin,
+  }));
+
+  const source = edge.sourceId ? nodesById.get(edge.sourceId) : undefined;
+  if (source && rectContains(source.rect, edge.points[0])) {
+    points[0] = trimEndpoint(
+      points[1],
+      points[0],
+      nodeCenterPx(source, options),
+      nodeRadius(source, options.cellSize),
+    );
+  }
+
+  const last = points.length - 1;
+  const target = edge.targetId ? nodesById.get(edge.targetId) : undefined;
+  if (target && rectContains(target.rect, edge.points[last])) {
+    points[last] = trimEndpoint(
+      points[last - 1],
+      points[last],
+      nodeCenterPx(target, options),
+      nodeRadius(target, options.cellSize),
+    );
+  }
+
+  const d = points.map((point, i) => `${i === 0 ? "M" : "L"}${fmt(point.x)} ${fmt(point.y)}`).join(" ");
+  const marker = edge.directed === false ? "" : ` marker-end="url(#arrow)"`;
+  return `<path class="edge" data-id="${escapeXml(edge.id)}" d="${d}" fill="none" stroke="${STROKE}"${marker}/>`;
+}
+
+/**
+ * Render a laid-out plate diagram as a standalone SVG document.
+ * - Plates: rounded rectangles captioned bottom-right with `label (cardinality)` per dim.
+ * - Nodes: shaded circles for `observed`, diamonds or double circles for `deterministic`,
+ *   small dots for `source`, plain circles otherwise.
+ * - Edges: route polylines, with arrowheads unless `directed === false`.
+ * Elements are emitted in a fixed order with fixed precision, so equal inputs give
+ * byte-identical output.
+ */
+export function renderSvg(layout: DiagramLayout, options: SvgRenderOptions = {}): string {
+  const resolved: Required<SvgRenderOptions> = {
+    cellSize: options.cellSize ?? DEFAULT_CELL_SIZE,
+    margin: options.margin ?? DEFAULT_MARGIN,
+    deterministicStyle: options.deterministicStyle ?? "diamond",
+    fontFamily: options.fontFamily ?? DEFAULT_FONT_FAMILY,
+    fontSize: options.fontSize ?? DEFAULT_FONT_SIZE,
+  };
+  const { cellSize, margin } = resolved;
+
+  let maxX = 0;
+  let maxY = 0;
+  for (const rect of [...layout.nodes.map((n) => n.rect), ...layout.plates.map((p) => p.rect)]) {
+    maxX = Math.max(maxX, rect.x + rect.width);
+    maxY = Math.max(maxY, rect.y + rect.height);
+  }
+  for (const edge of layout.edges) {
+    for (const point of edge.points) {
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }
+  }
+
+  const width = maxX * cellSize + margin * 2;
+  const height = maxY * cellSize + margin * 2;
+
+  const plates = platesInPaintOrder(layout.plates).map((plate) => {
+    const x = plate.rect.x * cellSize + margin;
+    const y = plate.rect.y * cellSize + margin;
+    const w = plate.rect.width * cellSize;
+    const h = plate.rect.height * cellSize;
+    const caption = plateLabelParts(plate, layout)
+      .map((part) => (part.cardinality === undefined ? part.label : `${part.label} (${part.cardinality})`))
+      .join(" × ");
+
+    return [
+      `<g class="plate" data-key="${escapeXml(plate.key)}">`,
+      `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(w)}" height="${fmt(h)}" rx="${PLATE_CORNER_RADIUS}" fill="none" stroke="${STROKE}"/>`,
+      `<text x="${fmt(x + w - 4)}" y="${fmt(y + h - 4)}" text-anchor="end" font-size="80%">${escapeXml(caption)}</text>`,
+      "</g>",
+    ].join("");
+  });
+
+  const nodesById = new Map(layout.nodes.map((node) => [node.id, node]));
+  const edges = [...layout.edges]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((edge) => renderEdge(edge, nodesById, resolved))
+    .filter((markup) => markup.length > 0);
+  const nodes = [...layout.nodes]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((node) => renderNode(node, resolved));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}" height="${fmt(height)}" viewBox="0 0 ${fmt(width)} ${fmt(height)}" font-family="${escapeXml(resolved.fontFamily)}" font-size="${resolved.fontSize}">`,
+    "<defs>",
+    `<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0 0 L10 5 L0 10 z" fill="${STROKE}"/></marker>`,
+    "</defs>",
+    `<g class="plates">${plates.join("")}</g>`,
+    `<g class="edges">${edges.join("")}</g>`,
+    `<g class="nodes">${nodes.join("")}</g>`,
+    "</svg>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import type { DiagramLayout } from "./diagram";
+import { renderTikz } from "./tikz";
+
+const LAYOUT: DiagramLayout = {
+  dims: [{ id: "c", label: "Condition" }, { id: "p" }],
+  cardinalities: { c: 2, p: 3 },
+  nodes: [
+    { id: "alpha", type: "source", dims: [], rect: { x: 1, y: 0, width: 2, height: 2 } },
+    { id: "r_c", type: "latent", dims: ["c"], symbol: "r", rect: { x: 1, y: 4, width: 2, height: 2 } },
+    { id: "mu_cp", type: "deterministic", dims: ["c", "p"], symbol: "mu", rect: { x: 1, y: 8, width: 2, height: 2 } },
+    { id: "y_cp", type: "observed", dims: ["c", "p"], symbol: "y", rect: { x: 5, y: 8, width: 2, height: 2 } },
+  ],
+  plates: [
+    { key: "c", dims: ["c"], rect: { x: 0, y: 3, width: 9, height: 9 } },
+    { key: "c|p", dims: ["c", "p"], rect: { x: 0.5, y: 7, width: 8, height: 4.5 }, labelDims: ["p"] },
+  ],
+  edges: [
+    { id: "alpha->r_c", sourceId: "alpha", targetId: "r_c", points: [{ x: 2, y: 1 }, { x: 2, y: 5 }] },
+    { id: "r_c->mu_cp", sourceId: "r_c", targetId: "mu_cp", points: [{ x: 2, y: 5 }, { x: 2, y: 9 }] },
+    { id: "r_c->y_cp", sourceId: "r_c", targetId: "y_cp", points: [{ x: 2, y: 5 }, { x: 6, y: 5 }, { x: 6, y: 9 }] },
+    { id: "mu_cp--y_cp", sourceId: "mu_cp", targetId: "y_cp", directed: false, points: [{ x: 2, y: 9 }, { x: 6, y: 9 }] },
+  ],
+};
+
+const EXPECTED = [
+  "\\documentclass[tikz]{standalone}",
+  "\\usetikzlibrary{bayesnet}",
+  "\\begin{document}",
+  "\\begin{tikzpicture}",
+  "  \\node[const] (alpha) at (1,-0.5) {$\\alpha$};",
+  "  \\node[det, minimum size=1cm] (mu-cp) at (1,-4.5) {$\\mu_{cp}$};",
+  "  \\node[latent, minimum size=1cm] (r-c) at (1,-2.5) {$r_{c}$};",
+  "  \\node[obs, minimum size=1cm] (y-cp) at (3,-4.5) {$y_{cp}$};",
+  "  \\plate[inner sep=0pt]{plate0}{(0,-1.5)(4.5,-6)}{Condition ($2$)};",
+  "  \\plate[inner sep=0pt]{plate1}{(0.25,-3.5)(4.25,-5.75)}{p ($3$)};",
+  "  \\edge{alpha}{r-c};",
+  "  \\edge[-]{mu-cp}{y-cp};",
+  "  \\edge{r-c}{mu-cp};",
+  "  \\draw[->, >={triangle 45}] (r-c) -- (3,-2.5) -- (y-cp);",
+  "\\end{tikzpicture}",
+  "\\end{document}",
+].join("\n");
+
+test("renderTikz matches the golden bayesnet export of a nested-plate diagram", () => {
+  assert.equal(renderTikz(LAYOUT), `${EXPECTED}\n`);
+});
+
+test("renderTikz gives ids that sanitize alike distinct node names", () => {
+  const box = { x: 0, y: 0, width: 2, height: 2 };
+  const tikz = renderTikz(
+    {
+      dims: [{ id: "c" }],
+      cardinalities: { c: 2 },
+      nodes: [
+        { id: "r_c", type: "latent", dims: [], rect: box },
+        { id: "r-c", type: "latent", dims: [], rect: { ...box, y: 4 } },
+        { id: "r-c-2", type: "latent", dims: [], rect: { ...box, y: 8 } },
+        { id: "plate0", type: "latent", dims: ["c"], rect: { ...box, x: 4 } },
+      ],
+      plates: [{ key: "c", dims: ["c"], rect: { x: 3, y: -1, width: 4, height: 4 } }],
+      edges: [
+        { id: "r_c->r-c", sourceId: "r_c", targetId: "r-c", points: [{ x: 1, y: 1 }, { x: 1, y: 5 }] },
+        { id: "r-c->r-c-2", sourceId: "r-c", targetId: "r-c-2", points: [{ x: 1, y: 5 }, { x: 1, y: 9 }] },
+      ],
+    },
+    { standalone: false },
+  );
+  const names = [...tikz.matchAll(/\\node\[[^\]]*\] \(([^)]*)\)/g)].map((match) => match[1]);
+
+  // `r_c` sorts first but yields `r-c` to the node whose id already is a valid name.
+  assert.deepEqual(names, ["plate0-2", "r-c-3", "r-c", "r-c-2"]);
+  assert.match(tikz, /\\plate\[inner sep=0pt\]\{plate0\}/);
+  assert.match(tikz, /\\edge\{r-c-3\}\{r-c\};/);
+  assert.match(tikz, /\\edge\{r-c\}\{r-c-2\};/);
+});
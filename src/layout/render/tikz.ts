@@ -0,0 +1,164 @@
+import type { GridPoint } from "../routing/draftRouter";
+import {
+  plateLabelParts,
+  platesInPaintOrder,
+  rectCenter,
+  type DiagramLayout,
+  type DiagramNode,
+} from "./diagram";
+
+export interface TikzExportOptions {
+  /** Centimetres per grid cell. */
+  unit?: number;
+  /** Wrap the picture in a `standalone` document (default) or emit only the `tikzpicture`. */
+  standalone?: boolean;
+}
+
+const DEFAULT_UNIT_CM = 0.5;
+
+/** `tikzlibrary bayesnet` node styles keyed by `NodeTemplate.type`. */
+const BAYESNET_STYLE_BY_TYPE: Record<string, string> = {
+  observed: "obs",
+  deterministic: "det",
+  source: "const",
+  latent: "latent",
+};
+
+const GREEK_LETTERS = new Set([
+  "alpha", "beta", "gamma", "delta", "epsilon", "zeta", "eta", "theta", "iota", "kappa",
+  "lambda", "mu", "nu", "xi", "pi", "rho", "sigma", "tau", "upsilon", "phi", "chi", "psi",
+  "omega", "Gamma", "Delta", "Theta", "Lambda", "Xi", "Pi", "Sigma", "Upsilon", "Phi", "Psi",
+  "Omega",
+]);
+
+function fmt(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+function escapeLatexText(value: string): string {
+  return value.replace(/([\\{}$&#^_%~])/g, (ch) =>
+    ch === "\\" ? "\\textbackslash{}" : ch === "~" ? "\\textasciitilde{}" : ch === "^" ? "\\^{}" : `\\${ch}`,
+  );
+}
+
+function mathSymbol(value: string): string {
+  return GREEK_LETTERS.has(value) ? `\\${value}` : value.replace(/_/g, "\\_");
+}
+
+/**
+ * Node label as inline math, e.g. `$r_{cp}$` or `$\alpha$`.
+ */
+function nodeMath(node: DiagramNode): string {
+  const symbol = mathSymbol(node.symbol ?? node.id);
+  return node.symbol && node.dims.length > 0 ? `$${symbol}_{${node.dims.join("")}}$` : `$${symbol}$`;
+}
+
+function tikzName(id: string): string {
+  return id.replace(/[^A-Za-z0-9]+/g, "-");
+}
+
+/**
+ * TikZ node name per node id. Ids that are already valid names keep them; others, such as
+ * `r_c` next to `r-c`, get the next free `-2`, `-3`, ... suffix when their sanitized name
+ * is taken by another node or by one of the `reserved` plate names.
+ */
+function tikzNames(ids: readonly string[], reserved: readonly string[]): Map<string, string> {
+  const used = new Set(reserved);
+  const names = new Map<string, string>();
+  const valid = ids.filter((id) => tikzName(id) === id && !used.has(id));
+  for (const id of valid) {
+    used.add(id);
+    names.set(id, id);
+  }
+
+  for (const id of ids.filter((candidate) => !names.has(candidate))) {
+    const base = tikzName(id);
+    let name = base;
+    for (let index = 2; used.has(name); index += 1) {
+      name = `${base}-${index}`;
+    }
+    used.add(name);
+    names.set(id, name);
+  }
+
+  return names;
+}
+
+/**
+ * Export a laid-out plate diagram as TikZ using `tikzlibrary bayesnet` conventions:
+ * `\node[latent|obs|det|const]`, `\plate{}{...}{caption}` and `\edge{}{}`.
+ * Routes with bend points are drawn as `\draw` polylines through those points so the
+ * routed shape is kept. Grid y grows downwards and is flipped for TikZ.
+ */
+export function renderTikz(layout: DiagramLayout, options: TikzExportOptions = {}): string {
+  const unit = options.unit ?? DEFAULT_UNIT_CM;
+  const coord = (point: GridPoint) => `(${fmt(point.x * unit)},${fmt(-point.y * unit)})`;
+  const nodes = [...layout.nodes].sort((a, b) => a.id.localeCompare(b.id));
+  const plates = platesInPaintOrder(layout.plates);
+  const names = tikzNames(
+    nodes.map((node) => node.id),
+    plates.map((_, index) => `plate${index}`),
+  );
+  const lines: string[] = [];
+
+  for (const node of nodes) {
+    const style = BAYESNET_STYLE_BY_TYPE[node.type] ?? "latent";
+    const size = Math.min(node.rect.width, node.rect.height) * unit;
+    const sizing = style === "const" ? "" : `, minimum size=${fmt(size)}cm`;
+    lines.push(
+      `  \\node[${style}${sizing}] (${names.get(node.id)}) at ${coord(rectCenter(node.rect))} {${nodeMath(node)}};`,
+    );
+  }
+
+  plates.forEach((plate, index) => {
+    const caption = plateLabelParts(plate, layout)
+      .map((part) =>
+        part.cardinality === undefined
+          ? escapeLatexText(part.label)
+          : `${escapeLatexText(part.label)} ($${part.cardinality}$)`,
+      )
+      .join(" $\\times$ ");
+    const corners = `${coord({ x: plate.rect.x, y: plate.rect.y })}${coord({
+      x: plate.rect.x + plate.rect.width,
+      y: plate.rect.y + plate.rect.height,
+    })}`;
+    lines.push(`  \\plate[inner sep=0pt]{plate${index}}{${corners}}{${caption}};`);
+  });
+
+  for (const edge of [...layout.edges].sort((a, b) => a.id.localeCompare(b.id))) {
+    const source = edge.sourceId ? names.get(edge.sourceId) : undefined;
+    const target = edge.targetId ? names.get(edge.targetId) : undefined;
+    const arrow = edge.directed === false ? "-" : "->";
+
+    if (source && target && edge.points.length <= 2) {
+      lines.push(
+        edge.directed === false ? `  \\edge[-]{${source}}{${target}};` : `  \\edge{${source}}{${target}};`,
+      );
+      continue;
+    }
+
+    if (edge.points.length < 2) {
+      continue;
+    }
+
+    const bends = edge.points.slice(1, -1).map(coord);
+    const start = source ? `(${source})` : coord(edge.points[0]);
+    const end = target ? `(${target})` : coord(edge.points[edge.points.length - 1]);
+    lines.push(`  \\draw[${arrow}, >={triangle 45}] ${[start, ...bends, end].join(" -- ")};`);
+  }
+
+  const picture = ["\\begin{tikzpicture}", ...lines, "\\end{tikzpicture}"];
+  if (options.standalone === false) {
+    return `${picture.join("\n")}\n`;
+  }
+
+  return [
+    "\\documentclass[tikz]{standalone}",
+    "\\usetikzlibrary{bayesnet}",
+    "\\begin{document}",
+    ...picture,
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
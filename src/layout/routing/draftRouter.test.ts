@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { routeDraft } from "./draftRouter";
+
+test("routeDraft gives up on an enclosed goal instead of searching forever", () => {
+  const { routes } = routeDraft({
+    edges: [{ id: "a->b", source: { x: 0, y: 0 }, target: { x: 10, y: 0 } }],
+    blockedCells: [
+      { x: 9, y: 0 },
+      { x: 11, y: 0 },
+      { x: 10, y: -1 },
+      { x: 10, y: 1 },
+    ],
+  });
+
+  assert.deepEqual(routes, [
+    {
+      id: "a->b",
+      points: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+      ],
+    },
+  ]);
+});
+
+test("routeDraft still detours around obstacles inside the search area", () => {
+  const { routes } = routeDraft({
+    edges: [{ id: "a->b", source: { x: 0, y: 0 }, target: { x: 6, y: 0 } }],
+    obstacles: [{ x: 3, y: -1, width: 1, height: 3 }],
+    obstaclePadding: 0,
+  });
+
+  assert.ok(routes[0].points.length > 2);
+  assert.ok(routes[0].points.every((point) => point.x !== 3 || point.y < -1 || point.y > 1));
+});
@@ -50,6 +50,18 @@ interface Cell {
   y: number;
 }
 
+interface CellBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Cells of slack around the edge endpoints and obstacles that the search may use.
+ */
+const SEARCH_MARGIN = 2;
+
 const NEIGHBOR_DIRS: ReadonlyArray<Cell> = [
   { x: 1, y: 0 },
   { x: 0, y: 1 },
@@ -125,7 +137,54 @@ function reconstructPath(cameFrom: Map<string, string>, end: Cell): Cell[] {
   return path.reverse();
 }
 
-function findPath(start: Cell, goal: Cell, blocked: Set<string>): Cell[] {
+/**
+ * Finite search area for A*: without it an enclosed goal makes the open set grow forever.
+ */
+function searchBounds(
+  edges: readonly DraftRouterEdge[],
+  obstacles: readonly GridRect[],
+  step: number,
+  obstaclePadding: number,
+): CellBounds {
+  const bounds: CellBounds = {
+    minX: Number.POSITIVE_INFINITY,
+    maxX: Number.NEGATIVE_INFINITY,
+    minY: Number.POSITIVE_INFINITY,
+    maxY: Number.NEGATIVE_INFINITY,
+  };
+
+  const include = (cell: Cell) => {
+    bounds.minX = Math.min(bounds.minX, cell.x);
+    bounds.maxX = Math.max(bounds.maxX, cell.x);
+    bounds.minY = Math.min(bounds.minY, cell.y);
+    bounds.maxY = Math.max(bounds.maxY, cell.y);
+  };
+
+  for (const edge of edges) {
+    include(normalizeToCell(edge.source, step));
+    include(normalizeToCell(edge.target, step));
+  }
+
+  for (const obstacle of obstacles) {
+    include({
+      x: Math.floor(obstacle.x / step) - obstaclePadding,
+      y: Math.floor(obstacle.y / step) - obstaclePadding,
+    });
+    include({
+      x: Math.ceil((obstacle.x + obstacle.width) / step) + obstaclePadding,
+      y: Math.ceil((obstacle.y + obstacle.height) / step) + obstaclePadding,
+    });
+  }
+
+  return {
+    minX: bounds.minX - SEARCH_MARGIN,
+    maxX: bounds.maxX + SEARCH_MARGIN,
+    minY: bounds.minY - SEARCH_MARGIN,
+    maxY: bounds.maxY + SEARCH_MARGIN,
+  };
+}
+
+function findPath(start: Cell, goal: Cell, blocked: Set<string>, bounds: CellBounds): Cell[] {
   if (cellKey(start) === cellKey(goal)) {
     return [start];
   }
@@ -166,6 +225,15 @@ function findPath(start: Cell, goal: Cell, blocked: Set<string>): Cell[] {
       };
       const neighborKey = cellKey(neighbor);
 
+      if (
+        neighbor.x < bounds.minX ||
+        neighbor.x > bounds.maxX ||
+        neighbor.y < bounds.minY ||
+        neighbor.y > bounds.maxY
+      ) {
+        continue;
+      }
+
       if (neighborKey !== cellKey(goal) && blocked.has(neighborKey)) {
         continue;
       }
@@ -220,7 +288,20 @@ function simplifyPath(path: readonly Cell[]): Cell[] {
   return deduped;
 }
 
-function segmentCrossings(routes: readonly RoutedEdge[]): number {
+/** Point where segments of two different edges cross. */
+export interface SegmentCrossing {
+  edgeIds: [string, string];
+  point: GridPoint;
+}
+
+export function segmentCrossings(routes: readonly RoutedEdge[]): number {
+  return segmentCrossingPairs(routes).length;
+}
+
+/**
+ * Every crossing counted by {@link segmentCrossings}, with the edges involved.
+ */
+export function segmentCrossingPairs(routes: readonly RoutedEdge[]): SegmentCrossing[] {
   type Segment = { a: GridPoint; b: GridPoint; edgeId: string };
   const segments: Segment[] = [];
 
@@ -230,7 +311,7 @@ function segmentCrossings(routes: readonly RoutedEdge[]): number {
     }
   }
 
-  let count = 0;
+  const crossings: SegmentCrossing[] = [];
   for (let i = 0; i < segments.length; i += 1) {
     for (let j = i + 1; j < segments.length; j += 1) {
       const s1 = segments[i];
@@ -258,12 +339,12 @@ function segmentCrossings(routes: readonly RoutedEdge[]): number {
       const hMaxX = Math.max(horizontal.a.x, horizontal.b.x);
 
       if (vx >= hMinX && vx <= hMaxX && hy >= vMinY && hy <= vMaxY) {
-        count += 1;
+        crossings.push({ edgeIds: [s1.edgeId, s2.edgeId], point: { x: vx, y: hy } });
       }
     }
   }
 
-  return count;
+  return crossings;
 }
 
 export function evaluateRouteCost(routes: readonly RoutedEdge[]): RouteCost {
@@ -311,6 +392,7 @@ export function routeDraft(input: DraftRouterInput): DraftRouterResult {
     obstaclePadding,
   );
 
+  const bounds = searchBounds(input.edges, input.obstacles ?? [], gridStep, obstaclePadding);
   const routes: RoutedEdge[] = [];
 
   for (const edge of [...input.edges].sort((a, b) => a.id.localeCompare(b.id))) {
@@ -320,7 +402,7 @@ export function routeDraft(input: DraftRouterInput): DraftRouterResult {
     blocked.delete(cellKey(start));
     blocked.delete(cellKey(goal));
 
-    const rawPath = findPath(start, goal, blocked);
+    const rawPath = findPath(start, goal, blocked, bounds);
     const simplified = simplifyPath(rawPath).map((cell) => denormalizeFromCell(cell, gridStep));
     routes.push({ id: edge.id, points: simplified });
 
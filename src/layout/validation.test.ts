@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { formatTemplateDiagnostics, validateTemplateGraph } from "./validation";
+
+const dims = [{ id: "c" }, { id: "p" }];
+
+test("validateTemplateGraph accepts a well-formed graph", () => {
+  const result = validateTemplateGraph({
+    dims,
+    nodes: [
+      { id: "mu", type: "latent", dims: ["c"] },
+      { id: "y", type: "observed", dims: ["c", "p"] },
+    ],
+    edges: [{ sourceTemplateId: "mu", targetTemplateId: "y" }],
+  });
+
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.diagnostics, []);
+});
+
+test("validateTemplateGraph reports duplicate ids, unknown dims and dangling edges", () => {
+  const result = validateTemplateGraph({
+    dims: [...dims, { id: "c" }],
+    nodes: [
+      { id: "mu", type: "latent", dims: ["c", "z"] },
+      { id: "mu", type: "latent", dims: [] },
+    ],
+    edges: [{ sourceTemplateId: "mu", targetTemplateId: "missing" }],
+  });
+
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    result.diagnostics.map((entry) => entry.code),
+    ["duplicate-dim-id", "duplicate-node-id", "unknown-dim", "dangling-edge"],
+  );
+  assert.deepEqual(result.diagnostics[2].dimIds, ["z"]);
+  assert.deepEqual(result.diagnostics[3].nodeIds, ["missing"]);
+});
+
+test("validateTemplateGraph reports self-loops and directed cycles", () => {
+  const result = validateTemplateGraph({
+    dims,
+    nodes: [
+      { id: "a", type: "latent", dims: [] },
+      { id: "b", type: "latent", dims: [] },
+    ],
+    edges: [
+      { sourceTemplateId: "a", targetTemplateId: "a" },
+      { sourceTemplateId: "a", targetTemplateId: "b" },
+      { sourceTemplateId: "b", targetTemplateId: "a" },
+    ],
+  });
+
+  assert.deepEqual(
+    result.diagnostics.map((entry) => entry.code),
+    ["self-loop", "cycle"],
+  );
+  assert.deepEqual([...result.diagnostics[1].nodeIds].sort(), ["a", "b"]);
+});
+
+test("validateTemplateGraph ignores undirected cycles", () => {
+  const result = validateTemplateGraph({
+    dims,
+    nodes: [
+      { id: "a", type: "latent", dims: [] },
+      { id: "b", type: "latent", dims: [] },
+    ],
+    edges: [
+      { sourceTemplateId: "a", targetTemplateId: "b", directed: false },
+      { sourceTemplateId: "b", targetTemplateId: "a", directed: false },
+    ],
+  });
+
+  assert.equal(result.ok, true);
+});
+
+test("validateTemplateGraph warns when an edge drops a dim without reducing it", () => {
+  const nodes = [
+    { id: "y", type: "observed", dims: ["c", "p"] },
+    { id: "s", type: "deterministic", dims: ["c"] },
+  ];
+  const warned = validateTemplateGraph({ dims, nodes, edges: [{ sourceTemplateId: "y", targetTemplateId: "s" }] });
+  const reduced = validateTemplateGraph({
+    dims,
+    nodes,
+    edges: [{ sourceTemplateId: "y", targetTemplateId: "s", reducedDims: ["p"] }],
+  });
+
+  assert.equal(warned.ok, true);
+  assert.deepEqual(
+    warned.diagnostics.map((entry) => [entry.severity, entry.code]),
+    [["warning", "unreduced-dim-drop"]],
+  );
+  assert.match(formatTemplateDiagnostics(warned.diagnostics), /^warning\[unreduced-dim-drop\]: .*"p"/);
+  assert.deepEqual(reduced.diagnostics, []);
+});
+
+test("validateTemplateGraph warns about reduced dims the source lacks or the target keeps", () => {
+  const result = validateTemplateGraph({
+    dims: [...dims, { id: "t" }],
+    nodes: [
+      { id: "y", type: "observed", dims: ["c", "p"] },
+      { id: "s", type: "deterministic", dims: ["c"] },
+    ],
+    edges: [{ sourceTemplateId: "y", targetTemplateId: "s", reducedDims: ["p", "t", "c", "z"] }],
+  });
+
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    result.diagnostics.map((entry) => [entry.severity, entry.code, entry.dimIds]),
+    [
+      ["error", "unknown-dim", ["z"]],
+      ["warning", "invalid-reduced-dim", ["t", "c"]],
+    ],
+  );
+  assert.match(
+    formatTemplateDiagnostics(result.diagnostics),
+    /warning\[invalid-reduced-dim\]: Edge "y->s" reduces dim\(s\) "t", "c" that "y" does not carry or "s" keeps$/,
+  );
+});
@@ -0,0 +1,288 @@
+import { templateEdgeIds, type DimDecl, type EdgeTemplate, type NodeTemplate } from "./ir";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type TemplateDiagnosticCode =
+  | "duplicate-dim-id"
+  | "duplicate-node-id"
+  | "unknown-dim"
+  | "dangling-edge"
+  | "self-loop"
+  | "cycle"
+  | "unreduced-dim-drop"
+  | "invalid-reduced-dim";
+
+export interface TemplateDiagnostic {
+  severity: DiagnosticSeverity;
+  code: TemplateDiagnosticCode;
+  message: string;
+  /** Offending node template ids. */
+  nodeIds: string[];
+  /** Offending edge ids as produced by `templateEdgeIds`. */
+  edgeIds: string[];
+  /** Offending dim ids. */
+  dimIds: string[];
+}
+
+export interface TemplateValidationResult {
+  /** `true` when no diagnostic has severity `error`. */
+  ok: boolean;
+  diagnostics: TemplateDiagnostic[];
+}
+
+export interface TemplateGraphInput {
+  dims: readonly DimDecl[];
+  nodes: readonly NodeTemplate[];
+  edges: readonly EdgeTemplate[];
+}
+
+function diagnostic(
+  severity: DiagnosticSeverity,
+  code: TemplateDiagnosticCode,
+  message: string,
+  ids: Partial<Pick<TemplateDiagnostic, "nodeIds" | "edgeIds" | "dimIds">> = {},
+): TemplateDiagnostic {
+  return {
+    severity,
+    code,
+    message,
+    nodeIds: ids.nodeIds ?? [],
+    edgeIds: ids.edgeIds ?? [],
+    dimIds: ids.dimIds ?? [],
+  };
+}
+
+function duplicates(ids: readonly string[]): string[] {
+  const seen = new Set<string>();
+  const repeated = new Set<string>();
+
+  for (const id of ids) {
+    if (seen.has(id)) {
+      repeated.add(id);
+    }
+    seen.add(id);
+  }
+
+  return [...repeated].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Strongly connected components with more than one node (Tarjan), each sorted by id.
+ */
+function findCycles(nodeIds: readonly string[], adjacency: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (nodeId: string): void => {
+    index.set(nodeId, counter);
+    lowLink.set(nodeId, counter);
+    counter += 1;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const next of adjacency.get(nodeId) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId) as number, lowLink.get(next) as number));
+      } else if (onStack.has(next)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId) as number, index.get(next) as number));
+      }
+    }
+
+    if (lowLink.get(nodeId) === index.get(nodeId)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+
+      if (component.length > 1) {
+        components.push(component.sort((a, b) => a.localeCompare(b)));
+      }
+    }
+  };
+
+  for (const nodeId of nodeIds) {
+    if (!index.has(nodeId)) {
+      visit(nodeId);
+    }
+  }
+
+  return components.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/**
+ * Check a template graph before expansion or layout.
+ * - Errors: duplicate dim/node ids, undeclared dims, edges to unknown templates,
+ *   self-loops and cycles among directed edges.
+ * - Warnings: edges that drop source dims without listing them in `reducedDims`, and
+ *   `reducedDims` entries that the source lacks or the target keeps.
+ * Diagnostics are ordered by check, then by the ids involved.
+ */
+export function validateTemplateGraph(graph: TemplateGraphInput): TemplateValidationResult {
+  const diagnostics: TemplateDiagnostic[] = [];
+  const edgeIds = templateEdgeIds(graph.edges);
+
+  for (const dimId of duplicates(graph.dims.map((dim) => dim.id))) {
+    diagnostics.push(
+      diagnostic("error", "duplicate-dim-id", `Dim "${dimId}" is declared more than once`, {
+        dimIds: [dimId],
+      }),
+    );
+  }
+
+  for (const nodeId of duplicates(graph.nodes.map((node) => node.id))) {
+    diagnostics.push(
+      diagnostic("error", "duplicate-node-id", `Node id "${nodeId}" is used more than once`, {
+        nodeIds: [nodeId],
+      }),
+    );
+  }
+
+  const declaredDims = new Set(graph.dims.map((dim) => dim.id));
+  for (const node of graph.nodes) {
+    const unknown = node.dims.filter((dim) => !declaredDims.has(dim));
+    if (unknown.length > 0) {
+      diagnostics.push(
+        diagnostic(
+          "error",
+          "unknown-dim",
+          `Node "${node.id}" uses undeclared dim(s) ${unknown.map((dim) => `"${dim}"`).join(", ")}`,
+          { nodeIds: [node.id], dimIds: unknown },
+        ),
+      );
+    }
+  }
+
+  const nodesById = new Map<string, NodeTemplate>();
+  for (const node of graph.nodes) {
+    if (!nodesById.has(node.id)) {
+      nodesById.set(node.id, node);
+    }
+  }
+
+  const adjacency = new Map<string, string[]>();
+
+  graph.edges.forEach((edge, edgeIndex) => {
+    const edgeId = edgeIds[edgeIndex];
+    const source = nodesById.get(edge.sourceTemplateId);
+    const target = nodesById.get(edge.targetTemplateId);
+
+    const unknownReduced = (edge.reducedDims ?? []).filter((dim) => !declaredDims.has(dim));
+    if (unknownReduced.length > 0) {
+      diagnostics.push(
+        diagnostic(
+          "error",
+          "unknown-dim",
+          `Edge "${edgeId}" reduces undeclared dim(s) ${unknownReduced.map((dim) => `"${dim}"`).join(", ")}`,
+          { edgeIds: [edgeId], dimIds: unknownReduced },
+        ),
+      );
+    }
+
+    if (!source || !target) {
+      const missing = [
+        ...(source ? [] : [edge.sourceTemplateId]),
+        ...(target ? [] : [edge.targetTemplateId]),
+      ];
+      diagnostics.push(
+        diagnostic(
+          "error",
+          "dangling-edge",
+          `Edge "${edgeId}" references unknown node(s) ${missing.map((id) => `"${id}"`).join(", ")}`,
+          { edgeIds: [edgeId], nodeIds: missing },
+        ),
+      );
+      return;
+    }
+
+    if (source.id === target.id) {
+      diagnostics.push(
+        diagnostic("error", "self-loop", `Edge "${edgeId}" connects "${source.id}" to itself`, {
+          edgeIds: [edgeId],
+          nodeIds: [source.id],
+        }),
+      );
+      return;
+    }
+
+    const invalidReduced = (edge.reducedDims ?? []).filter(
+      (dim) => declaredDims.has(dim) && (!source.dims.includes(dim) || target.dims.includes(dim)),
+    );
+    if (invalidReduced.length > 0) {
+      diagnostics.push(
+        diagnostic(
+          "warning",
+          "invalid-reduced-dim",
+          `Edge "${edgeId}" reduces dim(s) ${invalidReduced.map((dim) => `"${dim}"`).join(", ")} ` +
+            `that "${source.id}" does not carry or "${target.id}" keeps`,
+          { edgeIds: [edgeId], nodeIds: [source.id, target.id], dimIds: invalidReduced },
+        ),
+      );
+    }
+
+    const reduced = new Set(edge.reducedDims ?? []);
+    const dropped = source.dims.filter((dim) => !target.dims.includes(dim) && !reduced.has(dim));
+    if (dropped.length > 0) {
+      diagnostics.push(
+        diagnostic(
+          "warning",
+          "unreduced-dim-drop",
+          `Edge "${edgeId}" drops dim(s) ${dropped.map((dim) => `"${dim}"`).join(", ")} ` +
+            `from "${source.id}" without a reduction`,
+          { edgeIds: [edgeId], nodeIds: [source.id, target.id], dimIds: dropped },
+        ),
+      );
+    }
+
+    if (edge.directed !== false) {
+      const targets = adjacency.get(source.id);
+      if (targets) {
+        targets.push(target.id);
+      } else {
+        adjacency.set(source.id, [target.id]);
+      }
+    }
+  });
+
+  for (const component of findCycles([...nodesById.keys()], adjacency)) {
+    const members = new Set(component);
+    const cycleEdgeIds = graph.edges
+      .map((edge, edgeIndex) => ({ edge, edgeId: edgeIds[edgeIndex] }))
+      .filter(
+        ({ edge }) =>
+          edge.directed !== false &&
+          members.has(edge.sourceTemplateId) &&
+          members.has(edge.targetTemplateId),
+      )
+      .map(({ edgeId }) => edgeId);
+
+    diagnostics.push(
+      diagnostic(
+        "error",
+        "cycle",
+        `Directed cycle through ${component.map((id) => `"${id}"`).join(", ")}`,
+        { nodeIds: component, edgeIds: cycleEdgeIds },
+      ),
+    );
+  }
+
+  return {
+    ok: diagnostics.every((entry) => entry.severity !== "error"),
+    diagnostics,
+  };
+}
+
+/**
+ * Human-readable one-line-per-diagnostic report, e.g.
+ * `error[dangling-edge]: Edge "a->b" references unknown node(s) "b"`.
+ */
+export function formatTemplateDiagnostics(diagnostics: readonly TemplateDiagnostic[]): string {
+  return diagnostics.map((entry) => `${entry.severity}[${entry.code}]: ${entry.message}`).join("\n");
+}
@@ -0,0 +1,110 @@
+import { performance } from "node:perf_hooks";
+
+import {
+  exportFullTrace,
+  exportTransitionRing,
+  initializeAnneal,
+  runAnneal,
+  type AnnealProblem,
+  type AnnealTransition,
+} from "../layout/anneal/engine";
+
+interface BenchCase {
+  label: string;
+  problem: Partial<AnnealProblem>;
+  /** Also store every transition the way the engine did before appends were constant-time. */
+  copyOnAppend?: boolean;
+}
+
+const CASES: BenchCase[] = [
+  {
+    label: "before: copy-on-append, copied snapshots",
+    problem: { snapshotMode: "copy" },
+    copyOnAppend: true,
+  },
+  { label: "ring only", problem: {} },
+  { label: "ring + full trace", problem: { captureFullTrace: true } },
+  { label: "ring + full trace, copied snapshots", problem: { captureFullTrace: true, snapshotMode: "copy" } },
+];
+
+function parseIntFlag(args: string[], name: string, fallback: number): number {
+  const index = args.indexOf(name);
+  if (index === -1 || index + 1 >= args.length) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(args[index + 1], 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Cheap O(n) cost so the timings measure engine overhead rather than the scorer.
+ */
+function benchProblem(size: number, extra: Partial<AnnealProblem>): AnnealProblem {
+  return {
+    initialLayout: Array.from({ length: size }, (_, i) => (i * 7) % size),
+    maxNudgeStep: 2,
+    transitionBufferSize: 256,
+    ...extra,
+    evaluateCost: (layout) => {
+      let order = 0;
+      let drift = 0;
+      for (let i = 0; i < layout.length; i += 1) {
+        drift += Math.abs(layout[i] - i);
+        if (i > 0 && layout[i] < layout[i - 1]) {
+          order += 1;
+        }
+      }
+      return { total: drift + 3 * order, components: { drift, order } };
+    },
+  };
+}
+
+/**
+ * The old storage: a fresh copy of the ring's entries and of the whole full trace on
+ * every step, which makes long runs quadratic.
+ */
+function copyOnAppendHook(capacity: number): (transition: AnnealTransition) => void {
+  let entries: AnnealTransition[] = new Array(capacity);
+  let head = 0;
+  let trace: AnnealTransition[] = [];
+  return (transition) => {
+    entries = [...entries];
+    entries[head] = transition;
+    head = (head + 1) % capacity;
+    trace = [...trace, transition];
+  };
+}
+
+/**
+ * Steps per second at growing run lengths, per trace configuration, with the storage of
+ * the engine before constant-time appends as the first case. Flat rates mean constant
+ * per-step overhead.
+ */
+function main(): void {
+  const args = process.argv.slice(2);
+  const size = parseIntFlag(args, "--size", 64);
+  const maxSteps = parseIntFlag(args, "--steps", 40000);
+  const seed = parseIntFlag(args, "--seed", 1337);
+  const lengths = [maxSteps / 8, maxSteps / 4, maxSteps / 2, maxSteps].map(Math.floor);
+
+  console.log(`layout size=${size} seed=${seed}`);
+  for (const benchCase of CASES) {
+    runAnneal(initializeAnneal(benchProblem(size, benchCase.problem), seed), lengths[0]);
+    const rates = lengths.map((steps) => {
+      const state = initializeAnneal(benchProblem(size, benchCase.problem), seed);
+      const onStep = benchCase.copyOnAppend ? copyOnAppendHook(state.transitionBuffer.capacity) : undefined;
+      const started = performance.now();
+      runAnneal(state, steps, onStep);
+      const elapsed = performance.now() - started;
+
+      if (exportTransitionRing(state).length === 0 || (state.fullTraceEnabled && exportFullTrace(state).length !== steps)) {
+        throw new Error(`Unexpected trace length after ${steps} steps`);
+      }
+      return `${steps} steps: ${Math.round((steps / elapsed) * 1000)}/s`;
+    });
+    console.log(`${benchCase.label.padEnd(40)} ${rates.join("  ")}`);
+  }
+}
+
+main();
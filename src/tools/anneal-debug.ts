@@ -3,14 +3,48 @@ import { resolve } from "node:path";
 
 import {
   initializeAnneal,
+  moveName,
+  registerMoveKinds,
   stepAnneal,
   runAnneal,
   type AnnealProblem,
   type AnnealStateSnapshot,
   type AnnealTransition,
 } from "../layout/anneal/engine";
-import { computeCost, type CostBreakdown as LayoutCostBreakdown } from "../layout/cost/cost";
-import { buildDefaultFixtureConfig } from "../layout/fixtures/defaultPlateGraph";
+import { calibrateInitialTemperature } from "../layout/anneal/calibrate";
+import type { OptimizerConfig } from "../layout/anneal/optimizers";
+import { paretoArchiveToJson, runParetoAnneal, type ParetoObjective } from "../layout/anneal/pareto";
+import { rngAlgorithmNames } from "../layout/anneal/rng";
+import type { CoolingSchedule } from "../layout/anneal/schedule";
+import {
+  AESTHETIC_COST_REGISTRY,
+  computeCost,
+  COST_WEIGHT_PRESETS,
+  type CostConfig,
+  type CostWeightPreset,
+} from "../layout/cost/cost";
+import {
+  attributePlacementCost,
+  costAttributionToJson,
+  createGeometryCostEvaluator,
+} from "../layout/cost/evaluate";
+import type { CostNormalization } from "../layout/cost/normalize";
+import { buildDefaultFixtureConfig, buildDefaultFixtureGraphIR } from "../layout/fixtures/defaultPlateGraph";
+import {
+  buildPlacementAnnealProblem,
+  buildPlacementModel,
+  decodePlacement,
+  draftRouterInputForPlacement,
+  initialGridPlacement,
+} from "../layout/placement/grid";
+import { routeDraft } from "../layout/routing/draftRouter";
+import {
+  PLATE_CONSTRAINT_RULES,
+  withPlateConstraints,
+  type PlateConstraintConfig,
+  type PlateConstraintMode,
+} from "../layout/placement/constraints";
+import { plateMoveKinds } from "../layout/placement/moves";
 import { appendHistoryPoint, historyToCsv, historyToJson, type HistoryPoint } from "../layout/debug/history";
 
 interface AnnealDebugProblemConfig {
@@ -21,6 +55,30 @@ interface AnnealDebugProblemConfig {
   minTemperature: number;
   transitionBufferSize: number;
   enableBlockShift: boolean;
+  /** Cross-check incremental cost updates against full evaluations (debug). */
+  verifyDelta?: boolean;
+  /**
+   * `scalar` scores the layout as abstract numbers; `geometry` decodes it as a grid
+   * placement of the default fixture and scores routed geometry. Missing means `scalar`.
+   */
+  costModel?: "scalar" | "geometry";
+  /** Plate rules applied on top of the geometry cost model. */
+  plateConstraints?: PlateConstraintConfig;
+  /** Add plate shift/swap and slot moves to the geometry model's proposals. */
+  plateMoves?: boolean;
+  /** Add the alignment, symmetry, edge-length and parent-centring terms (geometry only). */
+  aesthetics?: boolean;
+  schedule?: CoolingSchedule;
+  /** RNG algorithm; missing means the original xorshift32 state format. */
+  rng?: string;
+  /** Layout indices that keep their initial value. */
+  pinned?: number[];
+  /** Search strategy; simulated annealing when missing. */
+  optimizer?: OptimizerConfig;
+  /** Weight profile for the scorer; missing means unit weights. */
+  costPreset?: CostWeightPreset;
+  /** Online term normalization; its preset replaces `costPreset`. */
+  normalization?: CostNormalization;
 }
 
 interface AnnealDebugRecord {
@@ -60,6 +118,20 @@ function hasFlag(args: string[], flag: string): boolean {
   return args.includes(flag);
 }
 
+function parsePlateConstraintFlag(args: string[]): PlateConstraintConfig | undefined {
+  const index = args.indexOf("--plate-constraints");
+  if (index === -1 || index + 1 >= args.length) {
+    return undefined;
+  }
+
+  const mode = args[index + 1] as PlateConstraintMode;
+  if (mode !== "hard" && mode !== "penalty" && mode !== "off") {
+    throw new Error(`Invalid --plate-constraints mode: ${args[index + 1]}`);
+  }
+
+  return { modes: Object.fromEntries(PLATE_CONSTRAINT_RULES.map((rule) => [rule, mode])) };
+}
+
 function loadRecord(pathArg?: string): AnnealDebugRecord {
   const path = resolve(pathArg ?? DEFAULT_STATE_PATH);
   if (!existsSync(path)) {
@@ -87,56 +159,233 @@ function countInversions(values: readonly number[]): number {
   return inversions;
 }
 
-function asEngineCost(cost: LayoutCostBreakdown) {
-  return {
-    total: cost.total,
-    components: {
-      L: cost.L,
-      X: cost.X,
-      B: cost.B,
-      F_out: cost.F_out,
-      F_down: cost.F_down,
-      F: cost.F,
-      S_span: cost.S_span,
-      S_waste: cost.S_waste,
-      S: cost.S,
-    },
-  };
+function buildDefaultPlacementModel() {
+  const fixture = buildDefaultFixtureConfig();
+  return buildPlacementModel(buildDefaultFixtureGraphIR(), { cardinalities: fixture.cardinalities });
 }
 
-function historyCostFromEngine(snapshot: AnnealStateSnapshot): LayoutCostBreakdown {
-  const c = snapshot.costBreakdown.components;
-  return {
-    total: snapshot.costBreakdown.total,
-    L: c.L ?? 0,
-    X: c.X ?? 0,
-    B: c.B ?? 0,
-    F_out: c.F_out ?? 0,
-    F_down: c.F_down ?? 0,
-    F: c.F ?? 0,
-    S_span: c.S_span ?? 0,
-    S_waste: c.S_waste ?? 0,
-    S: c.S ?? 0,
+/**
+ * Raw sums behind the scalar cost model, kept as the engine's cost cache so a nudge only
+ * revisits the entries it touches.
+ */
+interface ScalarCostTerms {
+  absSum: number;
+  spanAbsSum: number;
+  bends: number;
+  flowDownViolations: number;
+  flowOutViolations: number;
+  crossings: number;
+  waste: number;
+}
+
+function addPositionTerms(terms: ScalarCostTerms, value: number, sign: 1 | -1): void {
+  terms.absSum += sign * Math.abs(value);
+  terms.flowOutViolations += sign * (value < 0 ? 1 : 0);
+  terms.waste += sign * Math.max(0, Math.abs(value) - 6);
+}
+
+function addSpanTerms(terms: ScalarCostTerms, span: number, sign: 1 | -1): void {
+  terms.spanAbsSum += sign * Math.abs(span);
+  terms.bends += sign * (Math.abs(span) > 1 ? 1 : 0);
+  terms.flowDownViolations += sign * (span < 0 ? 1 : 0);
+}
+
+function measureScalarTerms(layout: readonly number[]): ScalarCostTerms {
+  const terms: ScalarCostTerms = {
+    absSum: 0,
+    spanAbsSum: 0,
+    bends: 0,
+    flowDownViolations: 0,
+    flowOutViolations: 0,
+    crossings: countInversions(layout),
+    waste: 0,
   };
+
+  layout.forEach((value, i) => {
+    addPositionTerms(terms, value, 1);
+    if (i > 0) {
+      addSpanTerms(terms, value - layout[i - 1], 1);
+    }
+  });
+
+  return terms;
+}
+
+/**
+ * Terms after nudging `layout[index]` to `next`, in O(n) for the inversion count and O(1)
+ * for everything else.
+ */
+function nudgeScalarTerms(
+  terms: ScalarCostTerms,
+  layout: readonly number[],
+  index: number,
+  next: number,
+): ScalarCostTerms {
+  const updated = { ...terms };
+  const prev = layout[index];
+
+  addPositionTerms(updated, prev, -1);
+  addPositionTerms(updated, next, 1);
+
+  if (index > 0) {
+    addSpanTerms(updated, prev - layout[index - 1], -1);
+    addSpanTerms(updated, next - layout[index - 1], 1);
+  }
+
+  if (index + 1 < layout.length) {
+    addSpanTerms(updated, layout[index + 1] - prev, -1);
+    addSpanTerms(updated, layout[index + 1] - next, 1);
+  }
+
+  for (let j = 0; j < layout.length; j += 1) {
+    if (j < index) {
+      updated.crossings += (layout[j] > next ? 1 : 0) - (layout[j] > prev ? 1 : 0);
+    } else if (j > index) {
+      updated.crossings += (next > layout[j] ? 1 : 0) - (prev > layout[j] ? 1 : 0);
+    }
+  }
+
+  return updated;
+}
+
+function scalarCost(terms: ScalarCostTerms, config: CostConfig) {
+  return computeCost(
+    { positions: [terms.absSum], spans: [terms.spanAbsSum], waste: terms.waste },
+    {
+      crossings: terms.crossings,
+      bends: terms.bends,
+      flowOutViolations: terms.flowOutViolations,
+      flowDownViolations: terms.flowDownViolations,
+    },
+    config,
+  );
+}
+
+const SCHEDULE_FLAGS: Record<string, CoolingSchedule> = {
+  geometric: { type: "geometric" },
+  linear: { type: "linear" },
+  logarithmic: { type: "logarithmic" },
+  "lundy-mees": { type: "lundyMees" },
+  adaptive: { type: "adaptive" },
+  reheat: { type: "reheat", base: { type: "geometric" } },
+};
+
+const OPTIMIZER_FLAGS: Record<string, OptimizerConfig> = {
+  annealing: { type: "annealing" },
+  "hill-climbing": { type: "hillClimbing" },
+  tabu: { type: "tabu" },
+  "late-acceptance": { type: "lateAcceptance" },
+  "great-deluge": { type: "greatDeluge" },
+};
+
+function parseOptimizerFlag(args: string[]): OptimizerConfig | undefined {
+  const index = args.indexOf("--optimizer");
+  if (index === -1 || index + 1 >= args.length) {
+    return undefined;
+  }
+
+  const optimizer = OPTIMIZER_FLAGS[args[index + 1]];
+  if (!optimizer) {
+    throw new Error(`Invalid --optimizer: ${args[index + 1]}`);
+  }
+
+  return optimizer;
+}
+
+function parseScheduleFlag(args: string[]): CoolingSchedule | undefined {
+  const index = args.indexOf("--schedule");
+  if (index === -1 || index + 1 >= args.length) {
+    return undefined;
+  }
+
+  const schedule = SCHEDULE_FLAGS[args[index + 1]];
+  if (!schedule) {
+    throw new Error(`Invalid --schedule: ${args[index + 1]}`);
+  }
+
+  return schedule;
+}
+
+function parseCostPresetFlag(args: string[]): CostWeightPreset | undefined {
+  const index = args.indexOf("--cost-preset");
+  if (index === -1 || index + 1 >= args.length) {
+    return undefined;
+  }
+
+  const preset = args[index + 1];
+  if (!Object.hasOwn(COST_WEIGHT_PRESETS, preset)) {
+    throw new Error(`Invalid --cost-preset: ${preset}`);
+  }
+
+  return preset as CostWeightPreset;
+}
+
+function parsePinFlag(args: string[]): number[] | undefined {
+  const index = args.indexOf("--pin");
+  if (index === -1) {
+    return undefined;
+  }
+
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith("--")) {
+    throw new Error("Missing --pin value: expected layout indices like 0,3");
+  }
+
+  const pinned = value.split(",").map((entry) => (/^\d+$/.test(entry.trim()) ? Number(entry) : Number.NaN));
+  if (pinned.some(Number.isNaN)) {
+    throw new Error(`Invalid --pin: ${value}`);
+  }
+
+  return pinned;
+}
+
+function parseRngFlag(args: string[]): string | undefined {
+  const index = args.indexOf("--rng");
+  if (index === -1) {
+    return undefined;
+  }
+
+  const names = rngAlgorithmNames();
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith("--")) {
+    throw new Error(`Missing --rng value: expected one of ${names.join(", ")}`);
+  }
+  if (!names.includes(value)) {
+    throw new Error(`Invalid --rng: ${value} (expected one of ${names.join(", ")})`);
+  }
+
+  return value;
 }
 
 function buildProblem(config: AnnealDebugProblemConfig): AnnealProblem {
+  const costConfig: CostConfig = config.costPreset ? { preset: config.costPreset } : {};
+
+  if (config.costModel === "geometry") {
+    const model = buildDefaultPlacementModel();
+    const evaluate = createGeometryCostEvaluator(model, {
+      cost: config.aesthetics ? { ...costConfig, registry: AESTHETIC_COST_REGISTRY } : costConfig,
+    });
+    const placed = buildPlacementAnnealProblem(model, evaluate, config);
+    const problem = config.plateMoves ? registerMoveKinds(placed, plateMoveKinds(model)) : placed;
+    return config.plateConstraints ? withPlateConstraints(problem, model, config.plateConstraints) : problem;
+  }
+
   return {
     ...config,
-    evaluateCost: (layout) => {
-      const spans = layout.slice(1).map((value, i) => value - layout[i]);
-      const bends = spans.reduce((sum, span) => sum + (Math.abs(span) > 1 ? 1 : 0), 0);
-      const flowDownViolations = spans.reduce((sum, span) => sum + (span < 0 ? 1 : 0), 0);
-      const flowOutViolations = layout.reduce((sum, value) => sum + (value < 0 ? 1 : 0), 0);
-      const crossings = countInversions(layout);
-      const waste = layout.reduce((sum, value) => sum + Math.max(0, Math.abs(value) - 6), 0);
-
-      const breakdown = computeCost(
-        { positions: layout, spans, waste },
-        { crossings, bends, flowOutViolations, flowDownViolations, spans },
-      );
+    evaluateCost: (layout) => scalarCost(measureScalarTerms(layout), costConfig),
+    initCostCache: (layout) => measureScalarTerms(layout),
+    evaluateDelta: (state, move) => {
+      if (move.type !== "nudge" || state.costCache === undefined || state.layout.length === 0) {
+        return undefined;
+      }
 
-      return asEngineCost(breakdown);
+      const terms = nudgeScalarTerms(
+        state.costCache as ScalarCostTerms,
+        state.layout,
+        move.index,
+        state.layout[move.index] + move.delta,
+      );
+      return { costBreakdown: scalarCost(terms, costConfig), costCache: terms };
     },
   };
 }
@@ -160,6 +409,9 @@ function cloneSnapshot(snapshot: AnnealStateSnapshot): AnnealStateSnapshot {
       components: { ...snapshot.costBreakdown.components },
     },
     rngState: { ...snapshot.rngState },
+    ...(snapshot.cooling ? { cooling: { ...snapshot.cooling } } : {}),
+    ...(snapshot.optimizer ? { optimizer: structuredClone(snapshot.optimizer) } : {}),
+    ...(snapshot.normalization ? { normalization: structuredClone(snapshot.normalization) } : {}),
   };
 }
 
@@ -183,20 +435,32 @@ function trimToCursor(record: AnnealDebugRecord): AnnealDebugRecord {
   };
 }
 
+function moveDetail(move: AnnealTransition["proposal"]): string {
+  switch (move.type) {
+    case "nudge":
+      return `index=${move.index} delta=${move.delta}`;
+    case "swap":
+      return `a=${move.a} b=${move.b}`;
+    case "reinsert":
+      return `from=${move.from} to=${move.to}`;
+    case "blockShift":
+      return `start=${move.start} end=${move.end} shift=${move.shift}`;
+    case "skip":
+      return "";
+    case "custom":
+      return Object.entries(move.params)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(" ");
+  }
+}
+
 function summarizeTransition(transition: AnnealTransition): string {
-  const detail =
-    transition.proposal.type === "nudge"
-      ? `index=${transition.proposal.index} delta=${transition.proposal.delta}`
-      : transition.proposal.type === "swap"
-        ? `a=${transition.proposal.a} b=${transition.proposal.b}`
-        : transition.proposal.type === "reinsert"
-          ? `from=${transition.proposal.from} to=${transition.proposal.to}`
-          : `start=${transition.proposal.start} end=${transition.proposal.end} shift=${transition.proposal.shift}`;
+  const detail = moveDetail(transition.proposal);
 
   return [
     `iter=${transition.after.iteration}`,
     `temp=${transition.after.temperature.toFixed(4)}`,
-    `move=${transition.proposal.type}(${detail})`,
+    `move=${moveName(transition.proposal)}(${detail})`,
     `delta=${transition.deltaCost.toFixed(4)}`,
     `accepted=${transition.accepted}`,
     `reason=${transition.reason}`,
@@ -206,10 +470,13 @@ function summarizeTransition(transition: AnnealTransition): string {
 
 function initCommand(args: string[]): void {
   const seed = parseIntFlag(args, "--seed", 1337);
-  const loadDefaultFixture = hasFlag(args, "--load-default-fixture");
-  const initialLayout = loadDefaultFixture
-    ? createDefaultFixtureLayout()
-    : [4, 2, 7, 1, 3, 6, 8, 5];
+  const geometry = hasFlag(args, "--geometry");
+  const loadDefaultFixture = geometry || hasFlag(args, "--load-default-fixture");
+  const initialLayout = geometry
+    ? initialGridPlacement(buildDefaultPlacementModel())
+    : loadDefaultFixture
+      ? createDefaultFixtureLayout()
+      : [4, 2, 7, 1, 3, 6, 8, 5];
 
   const problem: AnnealDebugProblemConfig = {
     initialLayout,
@@ -219,8 +486,31 @@ function initCommand(args: string[]): void {
     minTemperature: parseNumberFlag(args, "--min-temperature", 0.0001),
     transitionBufferSize: parseIntFlag(args, "--buffer", 256),
     enableBlockShift: !hasFlag(args, "--disable-block-shift"),
+    costModel: geometry ? "geometry" : "scalar",
+    verifyDelta: hasFlag(args, "--verify-delta"),
+    plateConstraints: geometry ? parsePlateConstraintFlag(args) : undefined,
+    plateMoves: geometry && hasFlag(args, "--plate-moves"),
+    aesthetics: geometry && hasFlag(args, "--aesthetics"),
+    schedule: parseScheduleFlag(args),
+    rng: parseRngFlag(args),
+    pinned: parsePinFlag(args),
+    optimizer: parseOptimizerFlag(args),
   };
 
+  const costPreset = parseCostPresetFlag(args);
+  if (hasFlag(args, "--normalize")) {
+    problem.normalization = costPreset ? { preset: costPreset } : {};
+  } else if (costPreset) {
+    problem.costPreset = costPreset;
+  }
+
+  if (hasFlag(args, "--auto-temperature")) {
+    problem.initialTemperature = calibrateInitialTemperature(buildProblem(problem), seed, {
+      targetAcceptance: parseNumberFlag(args, "--auto-temperature", 0.8),
+    });
+    console.log(`calibrated initial temperature=${problem.initialTemperature.toFixed(4)}`);
+  }
+
   const anneal = initializeAnneal(buildProblem(problem), seed);
   const snapshot = cloneSnapshot(anneal);
 
@@ -238,7 +528,9 @@ function initCommand(args: string[]): void {
   const statePath = args.includes("--state") ? args[args.indexOf("--state") + 1] : undefined;
   saveRecord(record, statePath);
   console.log(`initialized state at iter=0 total=${snapshot.costBreakdown.total.toFixed(4)} seed=${seed}`);
-  if (loadDefaultFixture) {
+  if (geometry) {
+    console.log("loaded default fixture grid placement with geometry cost");
+  } else if (loadDefaultFixture) {
     console.log("loaded default fixture layout");
   }
 }
@@ -255,8 +547,8 @@ function stepLike(record: AnnealDebugRecord, steps: number): AnnealDebugRecord {
       iter: transition.after.iteration,
       temp: transition.after.temperature,
       accepted: transition.accepted,
-      moveType: transition.proposal.type,
-      cost: historyCostFromEngine(transition.after),
+      moveType: moveName(transition.proposal),
+      cost: transition.after.costBreakdown,
     });
     next.cursor = transition.after.iteration;
     console.log(summarizeTransition(transition));
@@ -318,14 +610,101 @@ function exportCommand(args: string[]): void {
   console.log(`exported ${record.history.length} history rows to ${resolve(outPath)}`);
 }
 
+const DEFAULT_PARETO_OBJECTIVES: ParetoObjective[] = [
+  { name: "compactness", terms: ["L", "S_span", "S_waste"] },
+  { name: "readability", terms: ["X", "B", "F_out", "F_down"] },
+];
+
+/**
+ * `--objectives name=A+B,name2=C+D`; an objective without a name is named after its terms.
+ */
+function parseObjectivesFlag(args: string[]): ParetoObjective[] {
+  const index = args.indexOf("--objectives");
+  if (index === -1 || index + 1 >= args.length) {
+    return DEFAULT_PARETO_OBJECTIVES;
+  }
+
+  return args[index + 1].split(",").map((spec) => {
+    const [name, terms] = spec.includes("=") ? spec.split("=", 2) : [spec, spec];
+    return { name, terms: terms.split("+").filter((term) => term.length > 0) };
+  });
+}
+
+function paretoCommand(args: string[]): void {
+  const steps = Math.max(0, Number.parseInt(args[0] ?? "0", 10));
+  const statePath = args.includes("--state") ? args[args.indexOf("--state") + 1] : undefined;
+  const outPath = args.includes("--out") ? args[args.indexOf("--out") + 1] : "anneal-debug-pareto.json";
+  const weighting = args.includes("--weighting") ? args[args.indexOf("--weighting") + 1] : "rotating";
+  if (weighting !== "rotating" && weighting !== "random") {
+    throw new Error(`Invalid --weighting: ${weighting}`);
+  }
+
+  const record = loadRecord(statePath);
+  const { archive } = runParetoAnneal(buildProblem(record.problem), record.seed, {
+    objectives: parseObjectivesFlag(args),
+    steps,
+    weighting: { type: weighting },
+    period: parseIntFlag(args, "--period", 100),
+    archiveSize: parseIntFlag(args, "--archive-size", 64),
+  });
+
+  writeFileSync(resolve(outPath), `${paretoArchiveToJson(archive)}\n`, "utf8");
+  for (const entry of [...archive.entries].sort((a, b) => a.objectives[0] - b.objectives[0])) {
+    const values = archive.objectives.map((name, k) => `${name}=${entry.objectives[k].toFixed(4)}`);
+    console.log(`iter=${entry.iteration} ${values.join(" ")}`);
+  }
+  console.log(`exported ${archive.entries.length} non-dominated layouts to ${resolve(outPath)}`);
+}
+
+/**
+ * Per-edge and per-plate cost attribution for the layout at the cursor (geometry records).
+ */
+function blameCommand(args: string[]): void {
+  const statePath = args.includes("--state") ? args[args.indexOf("--state") + 1] : undefined;
+  const outPath = args.includes("--out") ? args[args.indexOf("--out") + 1] : "anneal-debug-blame.json";
+  const record = loadRecord(statePath);
+  if (record.problem.costModel !== "geometry") {
+    throw new Error("blame needs a record initialized with --geometry");
+  }
+
+  const model = buildDefaultPlacementModel();
+  const placement = decodePlacement(model, record.snapshots[record.cursor].layout);
+  const routes = routeDraft(draftRouterInputForPlacement(model, placement)).routes;
+  const attribution = attributePlacementCost(model, placement, routes);
+
+  writeFileSync(resolve(outPath), `${costAttributionToJson(attribution)}\n`, "utf8");
+  for (const edge of attribution.edges) {
+    const flags = [edge.flowDown ? "flow-down" : "", ...edge.flowOutPlates.map((key) => `leaves=${key}`)];
+    if (edge.crossings > 0 || edge.bends > 0 || flags.some((flag) => flag !== "")) {
+      console.log(
+        `edge ${edge.id} (${edge.source}->${edge.target}) length=${edge.length} bends=${edge.bends} crossings=${edge.crossings} ${flags.filter((flag) => flag !== "").join(" ")}`.trimEnd(),
+      );
+    }
+  }
+  for (const crossing of attribution.crossings) {
+    console.log(`crossing ${crossing.edgeIds.join(" x ")} at (${crossing.point.x},${crossing.point.y})`);
+  }
+  for (const plate of attribution.plates) {
+    console.log(`plate ${plate.key} span=${plate.span} waste=${plate.waste}`);
+  }
+  console.log(`exported cost attribution at iter=${record.cursor} to ${resolve(outPath)}`);
+}
+
 function printUsage(): void {
   console.log(`anneal-debug commands:
-  init [--load-default-fixture] [--seed N] [--state path]
+  init [--load-default-fixture] [--geometry [--plate-constraints hard|penalty|off] [--plate-moves] [--aesthetics]] [--verify-delta] [--seed N] [--state path]
+       [--schedule geometric|linear|logarithmic|lundy-mees|adaptive|reheat] [--auto-temperature [ACCEPTANCE]]
+       [--rng xorshift32|pcg32|splitmix64] [--pin I,J,...]
+       [--optimizer annealing|hill-climbing|tabu|late-acceptance|great-deluge]
+       [--cost-preset compact|readable|publication] [--normalize]
   step [--state path]
   run N [--state path]
   rewind [N] [--state path]
   jump ITER [--state path]
-  export [json|csv] [outPath] [--state path]`);
+  export [json|csv] [outPath] [--state path]
+  pareto N [--objectives NAME=TERM+TERM,...] [--weighting rotating|random] [--period N] [--archive-size N]
+       [--out path] [--state path]
+  blame [--out path] [--state path]`);
 }
 
 function main(argv: string[]): void {
@@ -361,6 +740,16 @@ function main(argv: string[]): void {
     return;
   }
 
+  if (command === "pareto") {
+    paretoCommand(rest);
+    return;
+  }
+
+  if (command === "blame") {
+    blameCommand(rest);
+    return;
+  }
+
   if (command === "export") {
     exportCommand(rest);
     return;
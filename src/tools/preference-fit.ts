@@ -0,0 +1,250 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { createInterface } from "node:readline";
+
+import { createRng, randInt, type AnnealRngState } from "../layout/anneal/rng";
+import { AESTHETIC_COST_REGISTRY, AESTHETIC_COST_TERMS, type CostBreakdown } from "../layout/cost/cost";
+import { evaluatePlacementCost } from "../layout/cost/evaluate";
+import { fitPreferenceWeights, type LayoutPreference } from "../layout/cost/preferences";
+import { buildDefaultFixtureConfig, buildDefaultFixtureGraphIR } from "../layout/fixtures/defaultPlateGraph";
+import {
+  buildPlacementModel,
+  decodePlacement,
+  draftRouterInputForPlacement,
+  placementToDiagram,
+  type GridPlacement,
+  type PlacementModel,
+} from "../layout/placement/grid";
+import { renderSvg } from "../layout/render/svg";
+import { routeDraft, type RoutedEdge } from "../layout/routing/draftRouter";
+
+interface Candidate {
+  layout?: number[];
+  costBreakdown: CostBreakdown;
+}
+
+const DEFAULT_PREFERENCES_PATH = "layout-preferences.json";
+const AESTHETIC_TERM_NAMES = new Set(AESTHETIC_COST_TERMS.map((term) => term.name));
+
+function flagValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 || index + 1 >= args.length ? undefined : args[index + 1];
+}
+
+function parseNumberFlag(args: string[], name: string, fallback: number): number {
+  const value = flagValue(args, name);
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Candidates from a Pareto archive (`anneal-debug pareto`) or a plain array of
+ * `{ layout?, costBreakdown }` entries. Entries without a default-fixture layout must
+ * already be scored with unit weights.
+ */
+function loadCandidates(path: string): Candidate[] {
+  const parsed = JSON.parse(readFileSync(resolve(path), "utf8")) as Candidate[] | { entries: Candidate[] };
+  const candidates = Array.isArray(parsed) ? parsed : parsed.entries;
+  if (!Array.isArray(candidates) || candidates.length < 2) {
+    throw new Error(`Need at least two candidates in ${path}`);
+  }
+  return candidates;
+}
+
+function loadPreferences(path: string): LayoutPreference[] {
+  return existsSync(resolve(path)) ? (JSON.parse(readFileSync(resolve(path), "utf8")) as LayoutPreference[]) : [];
+}
+
+function describe(label: string, index: number, candidate: Candidate): string {
+  const terms = Object.entries(candidate.costBreakdown.components)
+    .map(([term, value]) => `${term}=${Number(value.toFixed(4))}`)
+    .join(" ");
+  return `  [${label}] candidate ${index}: total=${candidate.costBreakdown.total.toFixed(4)} ${terms}`;
+}
+
+/** The routed placement when the candidate's layout encodes a grid placement of the default fixture. */
+function routeCandidate(
+  model: PlacementModel,
+  candidate: Candidate,
+): { placement: GridPlacement; routes: RoutedEdge[] } | undefined {
+  if (!candidate.layout || candidate.layout.length !== model.elements.length * 2) {
+    return undefined;
+  }
+
+  const placement = decodePlacement(model, candidate.layout);
+  return { placement, routes: routeDraft(draftRouterInputForPlacement(model, placement)).routes };
+}
+
+/**
+ * Writes the candidate as an SVG of the default fixture; returns the path, or `undefined`
+ * for other layouts.
+ */
+function writeCandidateSvg(model: PlacementModel, candidate: Candidate, path: string): string | undefined {
+  const routed = routeCandidate(model, candidate);
+  if (!routed) {
+    return undefined;
+  }
+
+  writeFileSync(path, `${renderSvg(placementToDiagram(model, routed.placement, routed.routes))}\n`, "utf8");
+  return path;
+}
+
+/**
+ * Rescores a default-fixture candidate with unit weights, since archived breakdowns carry
+ * the weights the run used and fitting on them would compound those weights. Other
+ * candidates keep their recorded breakdown.
+ */
+function unitWeightCost(model: PlacementModel, candidate: Candidate): CostBreakdown {
+  const routed = routeCandidate(model, candidate);
+  if (!routed) {
+    return candidate.costBreakdown;
+  }
+
+  const aesthetic = Object.keys(candidate.costBreakdown.components).some((term) => AESTHETIC_TERM_NAMES.has(term));
+  return evaluatePlacementCost(
+    model,
+    routed.placement,
+    routed.routes,
+    aesthetic ? { registry: AESTHETIC_COST_REGISTRY } : {},
+  );
+}
+
+function drawPair(count: number, rngState: AnnealRngState): [[number, number], AnnealRngState] {
+  let a;
+  let b;
+  let state = rngState;
+  [a, state] = randInt(count, state);
+  [b, state] = randInt(count - 1, state);
+  return [[a, b >= a ? b + 1 : b], state];
+}
+
+async function collectCommand(args: string[]): Promise<void> {
+  const candidates = loadCandidates(args[0] ?? "anneal-debug-pareto.json");
+  const outPath = flagValue(args, "--out") ?? DEFAULT_PREFERENCES_PATH;
+  const pairs = Math.max(1, Math.floor(parseNumberFlag(args, "--pairs", 10)));
+  const svgDir = flagValue(args, "--svg-dir");
+  const preferences = loadPreferences(outPath);
+  const model = buildPlacementModel(buildDefaultFixtureGraphIR(), {
+    cardinalities: buildDefaultFixtureConfig().cardinalities,
+  });
+  if (svgDir) {
+    mkdirSync(resolve(svgDir), { recursive: true });
+  }
+
+  // Read answers through the line iterator so piped input is buffered, not dropped.
+  const prompt = createInterface({ input: process.stdin });
+  const answers = prompt[Symbol.asyncIterator]();
+  let rngState = createRng(parseNumberFlag(args, "--seed", 1337));
+  let added = 0;
+
+  try {
+    for (let k = 0; k < pairs; k += 1) {
+      let pair: [number, number];
+      [pair, rngState] = drawPair(candidates.length, rngState);
+      const [a, b] = pair.map((index) => candidates[index]);
+
+      console.log(`pair ${k + 1}/${pairs}`);
+      console.log(describe("a", pair[0], a));
+      console.log(describe("b", pair[1], b));
+      if (svgDir) {
+        const written = [
+          writeCandidateSvg(model, a, resolve(svgDir, `pair-${k + 1}-a.svg`)),
+          writeCandidateSvg(model, b, resolve(svgDir, `pair-${k + 1}-b.svg`)),
+        ].filter((path) => path !== undefined);
+        written.forEach((path) => console.log(`  wrote ${path}`));
+      }
+
+      process.stdout.write("which looks better? [a/b/s(kip)/q(uit)] ");
+      const line = await answers.next();
+      const answer = line.done ? "q" : String(line.value).trim().toLowerCase();
+      if (answer === "q") {
+        break;
+      }
+      if (answer !== "a" && answer !== "b") {
+        continue;
+      }
+
+      const [preferred, other] = answer === "a" ? [a, b] : [b, a];
+      preferences.push({
+        preferred: unitWeightCost(model, preferred),
+        other: unitWeightCost(model, other),
+        ...(preferred.layout ? { preferredLayout: preferred.layout } : {}),
+        ...(other.layout ? { otherLayout: other.layout } : {}),
+      });
+      added += 1;
+    }
+  } finally {
+    prompt.close();
+  }
+
+  writeFileSync(resolve(outPath), `${JSON.stringify(preferences, null, 2)}\n`, "utf8");
+  console.log(`recorded ${added} preferences (${preferences.length} total) in ${resolve(outPath)}`);
+}
+
+function fitCommand(args: string[]): void {
+  const path = args[0] ?? DEFAULT_PREFERENCES_PATH;
+  if (!existsSync(resolve(path))) {
+    throw new Error(`Preferences file not found: ${resolve(path)} (record some with collect first)`);
+  }
+
+  const preferences = loadPreferences(path);
+  const terms = flagValue(args, "--terms")?.split(",").filter((term) => term.length > 0);
+  const fit = fitPreferenceWeights(preferences, {
+    terms,
+    l2: parseNumberFlag(args, "--l2", 0.01),
+    heldOutFraction: parseNumberFlag(args, "--held-out", 0.25),
+    seed: parseNumberFlag(args, "--seed", 1),
+  });
+
+  for (const [term, weight] of Object.entries(fit.weights).sort((x, y) => y[1] - x[1])) {
+    console.log(`${term.padEnd(10)} ${weight.toFixed(4)}`);
+  }
+  console.log(`train: ${fit.trainCount} preferences, agreement=${fit.trainAgreement.toFixed(3)} loss=${fit.loss.toFixed(4)}`);
+  console.log(
+    fit.heldOutAgreement === undefined
+      ? "held-out: none"
+      : `held-out: ${fit.heldOutCount} preferences, agreement=${fit.heldOutAgreement.toFixed(3)}`,
+  );
+
+  const outPath = flagValue(args, "--out");
+  if (outPath) {
+    writeFileSync(resolve(outPath), `${JSON.stringify({ weights: fit.weights }, null, 2)}\n`, "utf8");
+    console.log(`wrote CostConfig weights to ${resolve(outPath)}`);
+  }
+}
+
+function printUsage(): void {
+  console.log(`preference-fit commands:
+  collect [candidates.json] [--pairs N] [--seed N] [--svg-dir DIR] [--out preferences.json]
+  fit [preferences.json] [--terms A,B,...] [--l2 X] [--held-out FRACTION] [--seed N] [--out weights.json]`);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+
+  if (!command || command === "help" || command === "--help") {
+    printUsage();
+    return;
+  }
+
+  if (command === "collect") {
+    await collectCommand(rest);
+    return;
+  }
+
+  if (command === "fit") {
+    fitCommand(rest);
+    return;
+  }
+
+  throw new Error(`Unknown command: ${command}`);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});